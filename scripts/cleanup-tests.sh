@@ -4,6 +4,6 @@ set -e
 echo "Cleaning up test directories..."
 
 # Clean up test directories for all package managers
-rm -rf /tmp/test-npm /tmp/test-yarn /tmp/test-pnpm
+rm -rf /tmp/test-npm /tmp/test-yarn /tmp/test-pnpm /tmp/test-bun
 
 echo "Cleanup completed successfully!"
@@ -18,6 +18,10 @@ echo "=== Testing with yarn ==="
 echo "=== Testing with pnpm ==="
 "$SCRIPT_DIR/run-e2e-local.sh" pnpm
 
+# Test bun
+echo "=== Testing with bun ==="
+"$SCRIPT_DIR/run-e2e-local.sh" bun
+
 # Clean up after all tests
 echo "Cleaning up test directories..."
 "$SCRIPT_DIR/cleanup-tests.sh"
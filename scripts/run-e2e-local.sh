@@ -4,7 +4,7 @@ set -e
 # Check if package manager is provided
 if [ -z "$1" ]; then
   echo "Usage: $0 <package-manager> [cleanup]"
-  echo "  package-manager: npm, yarn, or pnpm"
+  echo "  package-manager: npm, yarn, pnpm, or bun"
   echo "  cleanup: add 'cleanup' as second argument to clean up test directories after tests"
   exit 1
 fi
@@ -22,8 +22,14 @@ yarn build
 # Run the test scripts
 echo "Running E2E tests for $PACKAGE_MANAGER..."
 "$SCRIPT_DIR/test-create-command.sh" "$PACKAGE_MANAGER"
+"$SCRIPT_DIR/test-project-commands.sh" "$PACKAGE_MANAGER"
 "$SCRIPT_DIR/test-build.sh" "$PACKAGE_MANAGER"
 
+# Create and build a project with pinned versions
+"$SCRIPT_DIR/test-create-command.sh" "$PACKAGE_MANAGER" test-agent-chat-app-pinned --pin
+"$SCRIPT_DIR/test-pinned-versions.sh" "$PACKAGE_MANAGER"
+"$SCRIPT_DIR/test-build.sh" "$PACKAGE_MANAGER" test-agent-chat-app-pinned
+
 # Clean up if requested
 if [ "$CLEANUP" = "cleanup" ]; then
   echo "Cleaning up test directories..."
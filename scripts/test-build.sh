@@ -1,10 +1,11 @@
 #!/bin/bash
 set -e
 
-# Get the package manager from the first argument
+# Get the package manager from the first argument, and the project from the
+# optional second one
 PACKAGE_MANAGER=$1
 TEST_DIR="/tmp/test-${PACKAGE_MANAGER}"
-PROJECT_NAME="test-agent-chat-app"
+PROJECT_NAME="${2:-test-agent-chat-app}"
 PROJECT_DIR="${TEST_DIR}/${PROJECT_NAME}"
 
 echo "Testing build in created project with package manager: ${PACKAGE_MANAGER}"
@@ -24,6 +25,9 @@ case "${PACKAGE_MANAGER}" in
   pnpm)
     pnpm build
     ;;
+  bun)
+    bun run build
+    ;;
   *)
     echo "Unsupported package manager: ${PACKAGE_MANAGER}"
     exit 1
@@ -1,10 +1,12 @@
 #!/bin/bash
 set -e
 
-# Get the package manager from the first argument
+# Get the package manager from the first argument, the project from the
+# optional second one, and any additional flags from the rest
 PACKAGE_MANAGER=$1
 TEST_DIR="/tmp/test-${PACKAGE_MANAGER}"
-PROJECT_NAME="test-agent-chat-app"
+PROJECT_NAME="${2:-test-agent-chat-app}"
+shift $(( $# > 1 ? 2 : $# ))
 PROJECT_DIR="${TEST_DIR}/${PROJECT_NAME}"
 
 echo "Testing create-agent-chat-app with package manager: ${PACKAGE_MANAGER}"
@@ -23,7 +25,7 @@ cd "${TEST_DIR}"
 
 # Run the command directly using node with the local index.js file
 echo "Using local package from ${PROJECT_ROOT}"
-node "${PROJECT_ROOT}/index.js" -Y --project-name="${PROJECT_NAME}" --package-manager="${PACKAGE_MANAGER}"
+node "${PROJECT_ROOT}/index.js" -Y --project-name="${PROJECT_NAME}" --package-manager="${PACKAGE_MANAGER}" "$@"
 
 # Verify the project was created
 if [ ! -d "${PROJECT_DIR}" ]; then
@@ -0,0 +1,32 @@
+#!/bin/bash
+set -e
+
+# Get the package manager from the first argument, and the project from the
+# optional second one
+PACKAGE_MANAGER=$1
+TEST_DIR="/tmp/test-${PACKAGE_MANAGER}"
+PROJECT_NAME="${2:-test-agent-chat-app-pinned}"
+PROJECT_DIR="${TEST_DIR}/${PROJECT_NAME}"
+
+echo "Testing pinned versions with package manager: ${PACKAGE_MANAGER}"
+cd "${PROJECT_DIR}"
+
+# Every dependency of a project created with --pin is an exact version
+RANGES=$(grep -hE '"[^"]+": "([~^<>=*]|latest)' package.json apps/*/package.json || true)
+if [ -n "${RANGES}" ]; then
+  echo "Error: Dependencies were not pinned:"
+  echo "${RANGES}"
+  exit 1
+fi
+
+# React refuses to run with different versions of react and react-dom
+if [ -f apps/web/package.json ]; then
+  REACT=$(node -p 'require("./apps/web/package.json").dependencies.react')
+  REACT_DOM=$(node -p 'require("./apps/web/package.json").dependencies["react-dom"]')
+  if [ "${REACT}" != "${REACT_DOM}" ]; then
+    echo "Error: react ${REACT} and react-dom ${REACT_DOM} are pinned to different versions"
+    exit 1
+  fi
+fi
+
+echo "All dependencies are pinned!"
@@ -0,0 +1,57 @@
+#!/bin/bash
+set -e
+
+# Get the package manager from the first argument, and the project from the
+# optional second one
+PACKAGE_MANAGER=$1
+TEST_DIR="/tmp/test-${PACKAGE_MANAGER}"
+PROJECT_NAME="${2:-test-agent-chat-app}"
+PROJECT_DIR="${TEST_DIR}/${PROJECT_NAME}"
+AGENT="retrieval-agent"
+GRAPH="retrieval_agent"
+
+# Determine the project root in local environment or CI
+PROJECT_ROOT=${GITHUB_WORKSPACE:-$(cd "$(dirname "${BASH_SOURCE[0]}")" && cd .. && pwd)}
+CLI="${PROJECT_ROOT}/index.js"
+
+echo "Testing the project commands with package manager: ${PACKAGE_MANAGER}"
+cd "${PROJECT_DIR}"
+
+fail() {
+  echo "Error: $1"
+  exit 1
+}
+
+# A freshly created project matches the templates it was created from
+echo "Running upgrade on the unchanged project..."
+OUTPUT=$(node "${CLI}" upgrade --dry-run)
+echo "${OUTPUT}"
+echo "${OUTPUT}" | grep -q "already up to date" ||
+  fail "upgrade reported changes in an unchanged project"
+
+# Unchanged agents are removed without reporting any modifications
+echo "Removing ${AGENT}..."
+OUTPUT=$(node "${CLI}" remove "${AGENT}" --force)
+echo "${OUTPUT}"
+if echo "${OUTPUT}" | grep -q "has been modified"; then
+  fail "remove reported modifications in an unchanged agent"
+fi
+[ ! -d "apps/agents/src/${AGENT}" ] || fail "apps/agents/src/${AGENT} was not removed"
+if grep -q "\"${GRAPH}\"" langgraph.json; then
+  fail "${GRAPH} is still registered in langgraph.json"
+fi
+
+echo "Adding ${AGENT} again..."
+node "${CLI}" add "${AGENT}"
+[ -d "apps/agents/src/${AGENT}" ] || fail "apps/agents/src/${AGENT} was not added"
+grep -q "\"${GRAPH}\"" langgraph.json ||
+  fail "${GRAPH} is not registered in langgraph.json"
+
+# Changes to the templates' files are kept by upgrade
+echo "Running upgrade with a modified file..."
+echo "// Local change" >> "apps/agents/src/${AGENT}/graph.ts"
+node "${CLI}" upgrade
+grep -q "// Local change" "apps/agents/src/${AGENT}/graph.ts" ||
+  fail "upgrade discarded a local change"
+
+echo "Project commands completed successfully!"
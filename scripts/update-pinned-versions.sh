@@ -0,0 +1,164 @@
+#!/bin/bash
+set -e
+
+# Regenerates pinned-versions.json, which --pin uses, by resolving every
+# dependency range the generated projects can contain against the npm
+# registry. Run it after `yarn build`, once the release has been tested with
+# the resolved versions.
+
+ROOT_DIR="$(cd "$(dirname "$0")/.." && pwd)"
+cd "${ROOT_DIR}"
+
+echo "Collecting dependency ranges..."
+node --input-type=module <<'EOF'
+import fs from "fs";
+import path from "path";
+import { execFileSync } from "child_process";
+import semver from "semver";
+import { createProject } from "./create-project.js";
+
+const FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "resolutions",
+  "overrides",
+];
+const ranges = new Set();
+
+function collect(dependencies) {
+  for (const [name, range] of Object.entries(dependencies ?? {})) {
+    if (typeof range !== "string" || /^[a-z]+:/.test(range)) continue;
+    if (/^\d+\.\d+\.\d+(-[\w.]+)?$/.test(range)) continue;
+    ranges.add(`${name}@${range}`);
+  }
+}
+
+// The dependencies of every provider option of every agent, including the
+// agent skeleton `generate` uses
+function collectManifest(value) {
+  if (typeof value !== "object" || value === null) return;
+  for (const [key, child] of Object.entries(value)) {
+    if (key === "dependencies") collect(child);
+    else collectManifest(child);
+  }
+}
+function walk(dir) {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name === "node_modules") continue;
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) walk(entryPath);
+    else if (entry.name === "agent.json") {
+      collectManifest(JSON.parse(fs.readFileSync(entryPath, "utf8")));
+    }
+  }
+}
+walk("templates");
+
+// The package.json files of generated projects, which include the
+// dependencies and overrides the built-in plugins add
+for (const framework of ["nextjs", "vite"]) {
+  for (const packageManager of ["npm", "pnpm"]) {
+    const result = await createProject({
+      projectName: "pinned-versions",
+      packageManager,
+      autoInstallDeps: false,
+      framework,
+      agents: [],
+      git: false,
+      dryRun: true,
+      cwd: "/tmp",
+    });
+    for (const [file, contents] of result.dryRunContents) {
+      if (path.basename(file) !== "package.json") continue;
+      const pkgJson = JSON.parse(contents.toString());
+      FIELDS.forEach((field) => collect(pkgJson[field]));
+    }
+  }
+}
+
+// Packages which must be pinned to the same version, as they check each
+// other's version at runtime, or describe the same release
+const PINNED_TOGETHER = [
+  ["react", "react-dom"],
+  ["@types/react", "@types/react-dom"],
+];
+
+const registry = new Map();
+function getPublished(name) {
+  if (!registry.has(name)) {
+    const output = execFileSync(
+      "npm",
+      ["view", name, "versions", "dist-tags", "--json"],
+      { encoding: "utf8" },
+    );
+    const info = JSON.parse(output);
+    registry.set(name, {
+      versions: [].concat(info.versions),
+      distTags: info["dist-tags"],
+    });
+  }
+  return registry.get(name);
+}
+
+// The package name of a `name@range` spec, which may be scoped
+function parseSpec(spec) {
+  const at = spec.indexOf("@", 1);
+  return { name: spec.slice(0, at), range: spec.slice(at + 1) };
+}
+
+// The highest published version which satisfies every range, by semver
+// precedence rather than publish order, or the version of a dist-tag like
+// `latest`
+function resolve(versions, ranges, distTags) {
+  if (ranges.length === 1 && distTags?.[ranges[0]]) {
+    return distTags[ranges[0]];
+  }
+  if (ranges.some((range) => !semver.validRange(range))) return null;
+  const satisfying = versions.filter((version) =>
+    ranges.every((range) => semver.satisfies(version, range)),
+  );
+  return semver.rsort(satisfying)[0] ?? null;
+}
+
+console.log(`Resolving ${ranges.size} ranges...`);
+const specs = Array.from(ranges).sort();
+const pinned = {};
+for (const spec of specs) {
+  const { name, range } = parseSpec(spec);
+  const { versions, distTags } = getPublished(name);
+  const version = resolve(versions, [range], distTags);
+  if (!version) {
+    console.error(`No published version of ${name} satisfies ${range}`);
+    process.exit(1);
+  }
+  pinned[spec] = version;
+}
+
+for (const group of PINNED_TOGETHER) {
+  const groupSpecs = specs.filter((spec) =>
+    group.includes(parseSpec(spec).name),
+  );
+  if (groupSpecs.length === 0) continue;
+  const groupRanges = groupSpecs.map((spec) => parseSpec(spec).range);
+  const published = group.map((name) => new Set(getPublished(name).versions));
+  const version = resolve(
+    Array.from(published[0]).filter((v) => published.every((p) => p.has(v))),
+    groupRanges,
+  );
+  if (!version) {
+    console.error(
+      `No version of ${group.join(" and ")} satisfies all of ${groupSpecs.join(", ")}`,
+    );
+    process.exit(1);
+  }
+  groupSpecs.forEach((spec) => (pinned[spec] = version));
+}
+
+fs.writeFileSync(
+  "pinned-versions.json",
+  JSON.stringify(pinned, null, 2) + "\n",
+);
+EOF
+
+echo "Wrote pinned-versions.json"
@@ -0,0 +1,263 @@
+import path from "path";
+import fs from "fs-extra";
+import chalk from "chalk";
+import {
+  AgentManifest,
+  copyAgentTemplate,
+  getAgentDependencies,
+  getAgentEnvVars,
+  getAgentGraphs,
+  getProviderSelection,
+  resolveAgentManifests,
+  selectAgentProviders,
+} from "./agents.js";
+import { getTemplateVariables } from "./create-project.js";
+import {
+  findProjectRoot,
+  getInstalledAgents,
+  getProjectPackageManager,
+  getProjectPaths,
+  listFiles,
+  parseEnvKeys,
+  readJsonFile,
+  writeJsonFile,
+} from "./project.js";
+import {
+  PinnedVersions,
+  loadPinnedVersions,
+  pinDependencies,
+} from "./pinned-versions.js";
+import { createDiskFs } from "./scaffold-fs.js";
+import {
+  TemplateLock,
+  hashContents,
+  readTemplateLock,
+  writeTemplateLock,
+} from "./template-lock.js";
+
+/**
+ * Adds any of the agents' dependencies which are missing from the agents
+ * workspace package.json. Versions the user already depends on are kept.
+ *
+ * @param {string} agentsPkgJsonPath - The path to the agents package.json
+ * @param {AgentManifest[]} agents - The agents being added
+ * @param {PinnedVersions} [pinned] - The exact versions to add the dependencies with, for projects created with `pin`
+ * @returns {Promise<string[]>} The names of the dependencies which were added
+ */
+export async function mergeAgentDependencies(
+  agentsPkgJsonPath: string,
+  agents: AgentManifest[],
+  pinned?: PinnedVersions,
+): Promise<string[]> {
+  const pkgJson = await readJsonFile(agentsPkgJsonPath);
+  const existing: Record<string, string> = {
+    ...pkgJson.devDependencies,
+    ...pkgJson.dependencies,
+  };
+  const dependencies = getAgentDependencies(agents);
+  const added = Object.entries(
+    pinned ? pinDependencies(dependencies, pinned).dependencies : dependencies,
+  ).filter(([name]) => !(name in existing));
+  if (added.length > 0) {
+    pkgJson.dependencies = {
+      ...pkgJson.dependencies,
+      ...Object.fromEntries(added),
+    };
+    await writeJsonFile(agentsPkgJsonPath, pkgJson);
+  }
+  return added.map(([name]) => name);
+}
+
+/**
+ * Appends the agents' environment variables which are not yet declared
+ * in `.env.example`. Existing lines are left untouched.
+ *
+ * @param {string} envExamplePath - The path to the .env.example file
+ * @param {AgentManifest[]} agents - The agents being added
+ * @returns {Promise<string[]>} The names of the environment variables which were added
+ */
+export async function appendEnvExampleKeys(
+  envExamplePath: string,
+  agents: AgentManifest[],
+): Promise<string[]> {
+  const contents = (await fs.exists(envExamplePath))
+    ? await fs.promises.readFile(envExamplePath, "utf8")
+    : "";
+  const existingKeys = parseEnvKeys(contents);
+  const added = getAgentEnvVars(agents).filter(
+    (envVar) => !existingKeys.includes(envVar),
+  );
+  if (added.length > 0) {
+    const separator = contents === "" || contents.endsWith("\n") ? "" : "\n";
+    await fs.promises.writeFile(
+      envExamplePath,
+      `${contents}${separator}${added.map((envVar) => `${envVar}=""`).join("\n")}\n`,
+    );
+  }
+  return added;
+}
+
+/**
+ * Registers the agents' graphs in `langgraph.json`. Graph IDs which are
+ * already registered are never overwritten.
+ *
+ * @param {string} langGraphConfigPath - The path to the langgraph.json file
+ * @param {AgentManifest[]} agents - The agents being added
+ * @returns {Promise<{ added: string[]; conflicts: string[] }>} The registered graph IDs, and the IDs which were skipped because they point elsewhere
+ */
+export async function registerAgentGraphs(
+  langGraphConfigPath: string,
+  agents: AgentManifest[],
+): Promise<{ added: string[]; conflicts: string[] }> {
+  const config = await readJsonFile(langGraphConfigPath);
+  config.graphs = config.graphs ?? {};
+  const added: string[] = [];
+  const conflicts: string[] = [];
+  for (const agent of agents) {
+    for (const [graphId, graphPath] of Object.entries(getAgentGraphs(agent))) {
+      if (!(graphId in config.graphs)) {
+        config.graphs[graphId] = graphPath;
+        added.push(graphId);
+      } else if (config.graphs[graphId] !== graphPath) {
+        conflicts.push(graphId);
+      }
+    }
+  }
+  if (added.length > 0) {
+    await writeJsonFile(langGraphConfigPath, config);
+  }
+  return { added, conflicts };
+}
+
+/**
+ * Records the files of newly added agents in the template lock, so `upgrade`
+ * and `remove` compare them against what was added rather than an agent
+ * which was removed before.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @param {TemplateLock} lock - The template lock of the project
+ * @param {AgentManifest[]} agents - The agents which were added
+ */
+async function recordAgentFiles(
+  rootDir: string,
+  lock: TemplateLock,
+  agents: AgentManifest[],
+): Promise<void> {
+  const { agentsSrcDir } = getProjectPaths(rootDir);
+  for (const agent of agents) {
+    const agentDir = path.join(agentsSrcDir, agent.id);
+    const prefix = `${path.relative(rootDir, agentDir).split(path.sep).join("/")}/`;
+    for (const file of Object.keys(lock.files)) {
+      if (file.startsWith(prefix)) {
+        delete lock.files[file];
+      }
+    }
+    for (const file of await listFiles(agentDir)) {
+      lock.files[`${prefix}${file.split(path.sep).join("/")}`] = hashContents(
+        await fs.promises.readFile(path.join(agentDir, file)),
+      );
+    }
+    if (!lock.answers.agents.includes(agent.id)) {
+      lock.answers.agents.push(agent.id);
+    }
+  }
+  lock.files = Object.fromEntries(
+    Object.keys(lock.files)
+      .sort()
+      .map((file) => [file, lock.files[file]]),
+  );
+  await writeTemplateLock(rootDir, lock);
+}
+
+/**
+ * Adds prebuilt agents to an existing project. This copies each agent into
+ * `apps/agents/src`, then merges its dependencies, environment variables and
+ * graphs into the project, without overwriting anything the user has changed.
+ *
+ * @param {string[]} names - The IDs or aliases of the agents to add
+ * @param {AgentManifest[]} manifests - All available prebuilt agents
+ * @param {string} cwd - The directory the command was run from
+ */
+export async function addAgents(
+  names: string[],
+  manifests: AgentManifest[],
+  cwd: string,
+): Promise<void> {
+  const rootDir = await findProjectRoot(cwd);
+  const paths = getProjectPaths(rootDir);
+  // Agents are generated for the providers the project was created with
+  const lock = await readTemplateLock(rootDir);
+  const agents = resolveAgentManifests(manifests, names).map((agent) =>
+    selectAgentProviders(agent, getProviderSelection(lock?.answers ?? {})),
+  );
+  console.log(`Adding agents to: ${chalk.green(rootDir)}\n`);
+
+  const newAgents: AgentManifest[] = [];
+  for (const agent of agents) {
+    if (await fs.exists(path.join(paths.agentsSrcDir, agent.id))) {
+      console.log(
+        `${chalk.yellow("!")} Skipping ${chalk.cyan(agent.id)}, apps/agents/src/${agent.id} already exists`,
+      );
+    } else {
+      newAgents.push(agent);
+    }
+  }
+  if (newAgents.length === 0) {
+    console.log("\nNothing to add.");
+    return;
+  }
+
+  // Agents are rendered with the variables the project was created with
+  const variables = lock
+    ? getTemplateVariables({ ...lock.answers, autoInstallDeps: false }, [
+        ...(await getInstalledAgents(rootDir, manifests)),
+        ...newAgents,
+      ])
+    : {};
+  await Promise.all(
+    newAgents.map(async (agent) => {
+      await copyAgentTemplate(
+        agent,
+        paths.agentsSrcDir,
+        createDiskFs(),
+        variables,
+      );
+      console.log(`${chalk.green("✓")} Added ${chalk.cyan(agent.id)}`);
+    }),
+  );
+  if (lock) {
+    await recordAgentFiles(rootDir, lock, newAgents);
+  }
+
+  // Projects created with pinned versions get the new dependencies pinned too
+  const pinned = lock?.answers.pin ? await loadPinnedVersions() : undefined;
+  const [dependencies, envVars, graphs] = await Promise.all([
+    mergeAgentDependencies(paths.agentsPkgJsonPath, newAgents, pinned),
+    appendEnvExampleKeys(paths.envExamplePath, newAgents),
+    registerAgentGraphs(paths.langGraphConfigPath, newAgents),
+  ]);
+
+  if (dependencies.length > 0) {
+    console.log(`\nAdded dependencies: ${chalk.cyan(dependencies.join(", "))}`);
+  }
+  if (envVars.length > 0) {
+    console.log(
+      `Added to .env.example: ${chalk.cyan(envVars.join(", "))}\n  Remember to set them in your .env file.`,
+    );
+  }
+  if (graphs.added.length > 0) {
+    console.log(`Registered graphs: ${chalk.cyan(graphs.added.join(", "))}`);
+  }
+  graphs.conflicts.forEach((graphId) => {
+    console.log(
+      `${chalk.yellow("Warning: ")} Graph ${chalk.cyan(graphId)} is already registered in langgraph.json with a different path, and was left unchanged`,
+    );
+  });
+
+  if (dependencies.length > 0) {
+    const packageManager = await getProjectPackageManager(rootDir);
+    console.log(`
+To install the new dependencies, run:
+  ${chalk.cyan(`${packageManager} install`)}`);
+  }
+}
@@ -0,0 +1,536 @@
+import path from "path";
+import fs from "fs-extra";
+import { listFiles } from "./project.js";
+import { ScaffoldFs, createDiskFs } from "./scaffold-fs.js";
+import { TemplateVariables, renderTemplateFiles } from "./template-engine.js";
+import { ProjectAnswers } from "./types.js";
+
+/**
+ * The name of the manifest file each agent template ships with. Any directory
+ * inside `templates` which contains this file is treated as a prebuilt agent.
+ */
+export const AGENT_MANIFEST_FILE = "agent.json";
+
+/**
+ * One of the interchangeable providers an agent can be generated for.
+ */
+export interface AgentProviderOption {
+  /**
+   * The npm dependencies the provider needs, in addition to the agent's own.
+   */
+  dependencies: Record<string, string>;
+  /**
+   * The environment variables the provider reads.
+   */
+  env: string[];
+  /**
+   * The defaults this provider sets in the agent's configuration, keyed by
+   * configurable field, e.g. `{ "retrieverProvider": "pinecone" }`.
+   */
+  config: Record<string, string>;
+}
+
+/**
+ * A choice between interchangeable providers, e.g. which vector store an
+ * agent uses. Code which only applies to some providers is wrapped in
+ * `// @if <group>=<provider>,...` and `// @endif` comments in the template,
+ * see `renderTemplate`.
+ */
+export interface AgentProviderGroup {
+  /**
+   * The provider whose environment variables are required, and whose
+   * configuration defaults are used.
+   */
+  default: string;
+  /**
+   * The providers the agent can be generated for, keyed by name.
+   */
+  options: Record<string, AgentProviderOption>;
+}
+
+/**
+ * The chosen provider of every provider group, keyed by group name.
+ * Groups without a choice keep every provider.
+ */
+export type ProviderSelection = Record<string, string | undefined>;
+
+/**
+ * The declarative description of a prebuilt agent template.
+ */
+export interface AgentManifest {
+  /**
+   * The unique ID of the agent. This is also the name of the directory
+   * the agent is copied into inside `apps/agents/src`.
+   */
+  id: string;
+  /**
+   * A short name which can be passed to `--include-agent`.
+   * @default The agent ID
+   */
+  alias: string;
+  /**
+   * The human readable name shown in the prompts.
+   */
+  label: string;
+  /**
+   * The npm dependencies the agent needs in the agents workspace.
+   */
+  dependencies: Record<string, string>;
+  /**
+   * The environment variables the agent reads.
+   */
+  env: {
+    required: string[];
+    optional: string[];
+  };
+  /**
+   * The graphs the agent contributes to `langgraph.json`, keyed by graph ID.
+   * Paths are relative to the agent directory, e.g. `graph.ts:graph`.
+   */
+  graphs: Record<string, string>;
+  /**
+   * The provider groups the agent supports, keyed by group name, e.g. `vectorStore`.
+   * @default {}
+   */
+  providers: Record<string, AgentProviderGroup>;
+  /**
+   * The absolute path to the directory containing the agent template.
+   */
+  templateDir: string;
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates the `providers` field of an agent manifest.
+ *
+ * @param {unknown} raw - The value of the field
+ * @param {(message: string) => never} fail - Throws a validation error
+ * @returns {Record<string, AgentProviderGroup>} The provider groups
+ */
+function parseAgentProviders(
+  raw: unknown,
+  fail: (message: string) => never,
+): Record<string, AgentProviderGroup> {
+  if (raw === undefined) return {};
+  if (!isObject(raw)) {
+    return fail(`"providers" must map group names to provider groups`);
+  }
+  const groups: Record<string, AgentProviderGroup> = {};
+  for (const [group, value] of Object.entries(raw)) {
+    if (!isObject(value) || !isObject(value.options)) {
+      fail(`"providers.${group}.options" must map provider names to providers`);
+    }
+    const { options } = value as { options: Record<string, unknown> };
+    if (typeof value.default !== "string" || !(value.default in options)) {
+      fail(`"providers.${group}.default" must be one of its options`);
+    }
+    const parsedOptions: Record<string, AgentProviderOption> = {};
+    for (const [name, option] of Object.entries(options)) {
+      const key = `providers.${group}.options.${name}`;
+      if (!isObject(option)) {
+        fail(`"${key}" must be an object`);
+      }
+      const { dependencies, env, config } = option as Record<string, unknown>;
+      if (dependencies !== undefined && !isStringRecord(dependencies)) {
+        fail(`"${key}.dependencies" must map package names to version ranges`);
+      }
+      if (env !== undefined && !isStringArray(env)) {
+        fail(`"${key}.env" must be an array of strings`);
+      }
+      if (config !== undefined && !isStringRecord(config)) {
+        fail(`"${key}.config" must map configuration fields to values`);
+      }
+      parsedOptions[name] = {
+        dependencies: (dependencies as Record<string, string>) ?? {},
+        env: (env as string[]) ?? [],
+        config: (config as Record<string, string>) ?? {},
+      };
+    }
+    groups[group] = {
+      default: value.default as string,
+      options: parsedOptions,
+    };
+  }
+  return groups;
+}
+
+/**
+ * Validates the parsed contents of an agent manifest, and fills in the
+ * defaults for any optional fields.
+ *
+ * @param {unknown} raw - The parsed contents of the manifest file
+ * @param {string} templateDir - The directory the manifest was loaded from
+ * @returns {AgentManifest} The validated manifest
+ */
+function parseAgentManifest(raw: unknown, templateDir: string): AgentManifest {
+  const manifestPath = path.join(templateDir, AGENT_MANIFEST_FILE);
+  const fail = (message: string): never => {
+    throw new Error(`Invalid agent manifest ${manifestPath}: ${message}`);
+  };
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return fail("expected a JSON object");
+  }
+  const manifest = raw as Record<string, unknown>;
+
+  if (typeof manifest.id !== "string" || !manifest.id) {
+    fail(`"id" must be a non-empty string`);
+  }
+  if (manifest.alias !== undefined && typeof manifest.alias !== "string") {
+    fail(`"alias" must be a string`);
+  }
+  if (typeof manifest.label !== "string" || !manifest.label) {
+    fail(`"label" must be a non-empty string`);
+  }
+  if (
+    manifest.dependencies !== undefined &&
+    !isStringRecord(manifest.dependencies)
+  ) {
+    fail(`"dependencies" must map package names to version ranges`);
+  }
+  const env = (manifest.env ?? {}) as Record<string, unknown>;
+  if (env.required !== undefined && !isStringArray(env.required)) {
+    fail(`"env.required" must be an array of strings`);
+  }
+  if (env.optional !== undefined && !isStringArray(env.optional)) {
+    fail(`"env.optional" must be an array of strings`);
+  }
+  if (!isStringRecord(manifest.graphs)) {
+    fail(`"graphs" must map graph IDs to paths`);
+  }
+
+  const id = manifest.id as string;
+  return {
+    id,
+    alias: (manifest.alias as string | undefined) ?? id,
+    label: manifest.label as string,
+    dependencies: (manifest.dependencies as Record<string, string>) ?? {},
+    env: {
+      required: (env.required as string[] | undefined) ?? [],
+      optional: (env.optional as string[] | undefined) ?? [],
+    },
+    graphs: manifest.graphs as Record<string, string>,
+    providers: parseAgentProviders(manifest.providers, fail),
+    templateDir,
+  };
+}
+
+/**
+ * Loads the agent manifest of a single agent template.
+ *
+ * @param {string} templateDir - The directory containing the agent template
+ * @returns {Promise<AgentManifest>} The validated manifest
+ */
+export async function loadAgentManifest(
+  templateDir: string,
+): Promise<AgentManifest> {
+  const manifestPath = path.join(templateDir, AGENT_MANIFEST_FILE);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.promises.readFile(manifestPath, "utf8"));
+  } catch (e) {
+    throw new Error(
+      `Failed to parse agent manifest ${manifestPath}: ${(e as Error).message}`,
+    );
+  }
+  return parseAgentManifest(raw, templateDir);
+}
+
+/**
+ * Discovers every agent template inside the templates directory by looking
+ * for an agent manifest in each of its subdirectories.
+ *
+ * @param {string} templatesDir - The directory containing all templates
+ * @returns {Promise<AgentManifest[]>} The agent manifests, sorted by ID
+ */
+export async function loadAgentManifests(
+  templatesDir: string,
+): Promise<AgentManifest[]> {
+  const entries = await fs.promises.readdir(templatesDir, {
+    withFileTypes: true,
+  });
+  const manifests: AgentManifest[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const templateDir = path.join(templatesDir, entry.name);
+    if (!(await fs.exists(path.join(templateDir, AGENT_MANIFEST_FILE)))) {
+      continue;
+    }
+    manifests.push(await loadAgentManifest(templateDir));
+  }
+
+  const seen = new Map<string, string>();
+  for (const manifest of manifests) {
+    for (const name of new Set([manifest.id, manifest.alias])) {
+      const existing = seen.get(name);
+      if (existing) {
+        throw new Error(
+          `Agent name "${name}" is declared by both ${existing} and ${manifest.templateDir}`,
+        );
+      }
+      seen.set(name, manifest.templateDir);
+    }
+  }
+
+  return manifests.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Finds an agent manifest by its ID or alias.
+ *
+ * @param {AgentManifest[]} manifests - All available agent manifests
+ * @param {string} name - The ID or alias of the agent
+ * @returns {AgentManifest | undefined} The matching manifest, if any
+ */
+export function findAgentManifest(
+  manifests: AgentManifest[],
+  name: string,
+): AgentManifest | undefined {
+  return manifests.find((m) => m.id === name || m.alias === name);
+}
+
+/**
+ * Resolves a list of agent IDs or aliases to their manifests, removing duplicates.
+ *
+ * @param {AgentManifest[]} manifests - All available agent manifests
+ * @param {string[]} names - The IDs or aliases of the agents
+ * @returns {AgentManifest[]} The matching manifests
+ * @throws {Error} If any of the names does not match an agent
+ */
+export function resolveAgentManifests(
+  manifests: AgentManifest[],
+  names: string[],
+): AgentManifest[] {
+  const agents: AgentManifest[] = [];
+  for (const name of names) {
+    const manifest = findAgentManifest(manifests, name);
+    if (!manifest) {
+      throw new Error(
+        `Unknown agent "${name}". Available agents: ${manifests.map((m) => m.alias).join(", ")}`,
+      );
+    }
+    if (!agents.includes(manifest)) {
+      agents.push(manifest);
+    }
+  }
+  return agents;
+}
+
+/**
+ * Returns the provider choices made in the project configuration.
+ *
+ * @param {Partial<ProjectAnswers>} answers - The project configuration
+ * @returns {ProviderSelection} The chosen providers, keyed by group name
+ */
+export function getProviderSelection(
+  answers: Partial<ProjectAnswers>,
+): ProviderSelection {
+  return {
+    // Projects were always generated for Anthropic models, so the model
+    // provider is never left open
+    modelProvider: answers.modelProvider ?? "anthropic",
+    vectorStore: answers.vectorStore,
+    embeddings: answers.embeddings,
+  };
+}
+
+/**
+ * Narrows the provider groups of an agent down to the chosen providers.
+ * Groups without a choice, or whose choice the agent does not support,
+ * keep every provider.
+ *
+ * @param {AgentManifest} agent - The agent manifest
+ * @param {ProviderSelection} selection - The chosen providers
+ * @returns {AgentManifest} A copy of the manifest with only the chosen providers
+ */
+export function selectAgentProviders(
+  agent: AgentManifest,
+  selection: ProviderSelection,
+): AgentManifest {
+  const providers: Record<string, AgentProviderGroup> = {};
+  for (const [group, { default: defaultOption, options }] of Object.entries(
+    agent.providers,
+  )) {
+    const chosen = selection[group];
+    providers[group] =
+      chosen !== undefined && chosen in options
+        ? { default: chosen, options: { [chosen]: options[chosen] } }
+        : { default: defaultOption, options };
+  }
+  return { ...agent, providers };
+}
+
+/**
+ * Returns the environment variables an agent reads, including those of its
+ * providers. The variables of each group's default provider are required,
+ * and those of the other providers are optional.
+ *
+ * @param {AgentManifest} agent - The agent manifest
+ * @returns {AgentManifest["env"]} The required and optional variables
+ */
+export function getAgentEnv(agent: AgentManifest): AgentManifest["env"] {
+  const required = new Set(agent.env.required);
+  const optional = new Set(agent.env.optional);
+  for (const group of Object.values(agent.providers)) {
+    group.options[group.default].env.forEach((v) => required.add(v));
+    Object.values(group.options).forEach((option) =>
+      option.env.forEach((v) => optional.add(v)),
+    );
+  }
+  return {
+    required: Array.from(required),
+    optional: Array.from(optional).filter((v) => !required.has(v)),
+  };
+}
+
+/**
+ * Merges the npm dependencies of all the given agents, including those of
+ * every provider they support.
+ *
+ * @param {AgentManifest[]} agents - The agents included in the project
+ * @returns {Record<string, string>} The combined dependencies
+ */
+export function getAgentDependencies(
+  agents: AgentManifest[],
+): Record<string, string> {
+  const dependencies: Record<string, string> = {};
+  for (const agent of agents) {
+    Object.assign(dependencies, agent.dependencies);
+    for (const group of Object.values(agent.providers)) {
+      for (const option of Object.values(group.options)) {
+        Object.assign(dependencies, option.dependencies);
+      }
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Collects the unique environment variables used by all the given agents.
+ * Required variables are listed before optional ones.
+ *
+ * @param {AgentManifest[]} agents - The agents included in the project
+ * @returns {string[]} The environment variable names
+ */
+export function getAgentEnvVars(agents: AgentManifest[]): string[] {
+  const envVars = new Set<string>();
+  const envs = agents.map(getAgentEnv);
+  envs.forEach((env) => env.required.forEach((v) => envVars.add(v)));
+  envs.forEach((env) => env.optional.forEach((v) => envVars.add(v)));
+  return Array.from(envVars);
+}
+
+/**
+ * Returns the `graphs` entries an agent contributes to `langgraph.json`,
+ * with paths relative to the root of the project.
+ *
+ * @param {AgentManifest} agent - The agent manifest
+ * @returns {Record<string, string>} The graph entries, keyed by graph ID
+ */
+export function getAgentGraphs(agent: AgentManifest): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(agent.graphs).map(([graphId, graphPath]) => [
+      graphId,
+      `./apps/agents/src/${agent.id}/${graphPath}`,
+    ]),
+  );
+}
+
+/**
+ * Writes the configuration defaults of each group's default provider into
+ * the `configurable.<field> || "<default>"` (or `??`) expressions.
+ *
+ * @param {string} contents - The contents of a source file
+ * @param {Record<string, AgentProviderGroup>} providers - The agent's provider groups
+ * @returns {string} The source file with the new defaults
+ */
+function setProviderConfigDefaults(
+  contents: string,
+  providers: Record<string, AgentProviderGroup>,
+): string {
+  let rendered = contents;
+  for (const group of Object.values(providers)) {
+    const { config } = group.options[group.default];
+    for (const [field, value] of Object.entries(config)) {
+      rendered = rendered.replace(
+        new RegExp(
+          `(configurable\\??\\.${field}\\s*(?:\\|\\||\\?\\?)\\s*)"[^"]*"`,
+          "g",
+        ),
+        (_, prefix) => `${prefix}${JSON.stringify(value)}`,
+      );
+    }
+  }
+  return rendered;
+}
+
+/**
+ * Copies an agent template into the agents source directory of a project,
+ * leaving out the agent manifest. The template is rendered with the agent's
+ * provider groups as choices, so the code of providers which were not chosen
+ * is left out.
+ *
+ * @param {AgentManifest} agent - The agent to copy
+ * @param {string} agentsDir - The `apps/agents/src` directory of the project
+ * @param {ScaffoldFs} scaffoldFs - The filesystem to write to
+ * @param {TemplateVariables} variables - The variables of the project
+ */
+export async function copyAgentTemplate(
+  agent: AgentManifest,
+  agentsDir: string,
+  scaffoldFs: ScaffoldFs = createDiskFs(),
+  variables: TemplateVariables = {},
+): Promise<void> {
+  // Determine the destination directory for the agent
+  const agentDestDir: string = path.join(agentsDir, agent.id);
+
+  // Create the destination directory if it doesn't exist
+  await scaffoldFs.mkdir(agentDestDir);
+
+  // Copy the agent template files, leaving out the manifest
+  await scaffoldFs.copy(agent.templateDir, agentDestDir, {
+    filter: (src) => src !== path.join(agent.templateDir, AGENT_MANIFEST_FILE),
+  });
+
+  // Remove the code of the providers which were not chosen
+  const choices = Object.fromEntries(
+    Object.entries(agent.providers).map(([name, group]) => [
+      name,
+      Object.keys(group.options),
+    ]),
+  );
+  await renderTemplateFiles(
+    agent.templateDir,
+    agentDestDir,
+    { variables, choices },
+    scaffoldFs,
+    (file) => file !== AGENT_MANIFEST_FILE,
+  );
+
+  // Write the configuration defaults of the chosen providers
+  for (const file of await listFiles(agent.templateDir)) {
+    if (path.extname(file) !== ".ts") continue;
+    const filePath = path.join(agentDestDir, file);
+    const contents = await scaffoldFs.readFile(filePath);
+    const rendered = setProviderConfigDefaults(contents, agent.providers);
+    if (rendered !== contents) {
+      await scaffoldFs.writeFile(filePath, rendered);
+    }
+  }
+}
@@ -0,0 +1,335 @@
+import path from "path";
+import {
+  BASE_GITIGNORE,
+  NEXTJS_GITIGNORE,
+  VITE_GITIGNORE,
+} from "./gitignore.js";
+import {
+  AgentManifest,
+  getAgentDependencies,
+  getAgentEnvVars,
+  getAgentGraphs,
+} from "./agents.js";
+import { getDockerScripts, writeDockerFiles } from "./docker.js";
+import {
+  PINNED_DEPENDENCY_FIELDS,
+  loadPinnedVersions,
+  pinDependencies,
+} from "./pinned-versions.js";
+import { Plugin } from "./plugins.js";
+
+/**
+ * Creates the contents of a `.env` style file, declaring every environment
+ * variable the selected agents need, and every variable which has a value.
+ *
+ * @param {AgentManifest[]} agents - The agents which are included in the project
+ * @param {Record<string, string>} values - The values of the environment variables
+ * @returns {string} The contents of the file
+ */
+function createEnvFileContents(
+  agents: AgentManifest[],
+  values: Record<string, string>,
+): string {
+  const envVars = Array.from(
+    new Set([...getAgentEnvVars(agents), ...Object.keys(values)]),
+  );
+  const baseEnvVars = `# LANGSMITH_API_KEY=""
+# LANGSMITH_TRACING_V2="true"
+# LANGSMITH_PROJECT="default"`;
+
+  return `${baseEnvVars}\n\n${envVars
+    .map((envVar) => `${envVar}=${JSON.stringify(values[envVar] ?? "")}`)
+    .join("\n")}`;
+}
+
+/**
+ * Creates a '.env.example' file containing all the required environment
+ * variables, depending on the selected agents. If the user provided values,
+ * a '.env' file is written too, so the project runs without copying
+ * `.env.example` first. Only the owner can read it, as it contains secrets.
+ * It is already ignored by the root .gitignore.
+ *
+ * The root .env is read by the LangGraph server, so only projects with
+ * agents get one.
+ */
+const envFilesPlugin: Plugin = {
+  name: "env-files",
+  async afterCopy({ answers, agents, baseDir, fs }) {
+    if (answers.layout === "web-only") return;
+    await fs.writeFile(
+      path.join(baseDir, ".env.example"),
+      createEnvFileContents(agents, answers.envDefaults ?? {}),
+    );
+    if (answers.env) {
+      const values = { ...answers.envDefaults, ...answers.env };
+      await fs.writeFile(
+        path.join(baseDir, ".env"),
+        createEnvFileContents(agents, values) + "\n",
+        { mode: 0o600 },
+      );
+    }
+  },
+};
+
+/**
+ * Writes the .gitignore file for the project. This creates one in the root
+ * of the project, along with a framework-specific one inside the web
+ * directory, if the project has one.
+ */
+const gitignorePlugin: Plugin = {
+  name: "gitignore",
+  async afterCopy({ answers, baseDir, fs }) {
+    await fs.writeFile(path.join(baseDir, ".gitignore"), BASE_GITIGNORE);
+    if (answers.layout === "agents-only") return;
+    await fs.writeFile(
+      path.join(baseDir, "apps", "web", ".gitignore"),
+      answers.framework === "nextjs" ? NEXTJS_GITIGNORE : VITE_GITIGNORE,
+    );
+  },
+};
+
+/**
+ * Sets the name of the root package.json to the name of the project.
+ */
+const projectNamePlugin: Plugin = {
+  name: "project-name",
+  transformPackageJson(pkgJson, { answers, workspace }) {
+    if (workspace !== "root") return;
+    pkgJson.name = answers.projectName;
+  },
+};
+
+/**
+ * Creates a .yarnrc.yml file in the root of yarn projects.
+ */
+const yarnPlugin: Plugin = {
+  name: "yarn",
+  async afterCopy({ answers, baseDir, fs }) {
+    if (answers.packageManager !== "yarn") return;
+    await fs.writeFile(
+      path.join(baseDir, ".yarnrc.yml"),
+      `nodeLinker: node-modules
+
+enableImmutableInstalls: false
+`,
+    );
+  },
+};
+
+/**
+ * PNPM manages workspaces differently than NPM/Yarn, so if the user
+ * selects PNPM as their package manager, we need to create a
+ * pnpm-workspace.yaml file, and remove the workspaces field from the root
+ * package.json file.
+ */
+const pnpmWorkspacesPlugin: Plugin = {
+  name: "pnpm-workspaces",
+  async afterCopy({ answers, baseDir, fs }) {
+    if (answers.packageManager !== "pnpm") return;
+    await fs.writeFile(
+      path.join(baseDir, "pnpm-workspace.yaml"),
+      `packages:
+  - 'apps/*'
+`,
+    );
+  },
+  transformPackageJson(pkgJson, { answers, workspace }) {
+    if (answers.packageManager !== "pnpm" || workspace !== "root") return;
+    delete pkgJson.workspaces;
+  },
+};
+
+/**
+ * Adds the dependencies of the selected agents to the package.json of the
+ * agents workspace.
+ */
+const agentDependenciesPlugin: Plugin = {
+  name: "agent-dependencies",
+  transformPackageJson(pkgJson, { agents, workspace }) {
+    if (workspace !== "agents") return;
+    pkgJson.dependencies = {
+      ...pkgJson.dependencies,
+      ...getAgentDependencies(agents),
+    };
+  },
+};
+
+/**
+ * PNPM and Bun install workspace dependencies in isolation, so they do not
+ * resolve the LangGraph Checkpoint package direct dependency the same way
+ * NPM/Yarn do. For this reason, if the user selects PNPM or Bun as their
+ * package manager, we need to explicitly install it in the 'agents' workspace.
+ */
+const directDependencyWorkaroundPlugin: Plugin = {
+  name: "direct-dependency-workaround",
+  transformPackageJson(pkgJson, { answers, workspace }) {
+    if (workspace !== "agents") return;
+    if (answers.packageManager !== "pnpm" && answers.packageManager !== "bun") {
+      return;
+    }
+    pkgJson.dependencies = {
+      ...pkgJson.dependencies,
+      "@langchain/langgraph-checkpoint": "^0.0.16",
+    };
+  },
+};
+
+/**
+ * Projects with a single workspace only start that workspace's development
+ * server, so the root `dev` script no longer needs `concurrently`.
+ */
+const layoutScriptsPlugin: Plugin = {
+  name: "layout-scripts",
+  transformPackageJson(pkgJson, { answers, workspace }) {
+    const layout = answers.layout ?? "full";
+    if (layout === "full" || workspace !== "root") return;
+    const devWorkspace = layout === "agents-only" ? "agents" : "web";
+    pkgJson.scripts.dev = `turbo dev --filter=${devWorkspace}`;
+    delete pkgJson.devDependencies.concurrently;
+  },
+};
+
+/**
+ * Renames the agents and web workspaces of projects created with a scope,
+ * e.g. to `@acme/agents` and `@acme/web`, along with the turbo filters in
+ * the scripts which select them.
+ */
+const scopePlugin: Plugin = {
+  name: "scope",
+  transformPackageJson(pkgJson, { answers, workspace }) {
+    const { scope } = answers;
+    if (!scope) return;
+    if (workspace !== "root") {
+      pkgJson.name = `${scope}/${workspace}`;
+    }
+    for (const [name, script] of Object.entries(pkgJson.scripts ?? {})) {
+      pkgJson.scripts[name] = (script as string).replace(
+        /--filter=(agents|web)(?=["\s]|$)/g,
+        `--filter=${scope}/$1`,
+      );
+    }
+  },
+};
+
+/**
+ * Writes the Docker setup of projects created with `docker`, and adds the
+ * `docker:build` and `docker:up` scripts to the root package.json.
+ */
+const dockerPlugin: Plugin = {
+  name: "docker",
+  async afterCopy({ answers, variables, baseDir, fs }) {
+    if (!answers.docker) return;
+    await writeDockerFiles(
+      baseDir,
+      {
+        projectName: answers.projectName,
+        packageManager: answers.packageManager,
+        framework: answers.framework,
+        layout: answers.layout ?? "full",
+        assistantId: variables.assistantId,
+        langGraphPort: Number(variables.langGraphPort),
+      },
+      fs,
+    );
+  },
+  transformPackageJson(pkgJson, { answers, workspace }) {
+    if (!answers.docker || workspace !== "root") return;
+    pkgJson.scripts = {
+      ...pkgJson.scripts,
+      ...getDockerScripts(answers.projectName, answers.layout ?? "full"),
+    };
+  },
+};
+
+/**
+ * Sets the `packageManager` field in the root package.json, and the
+ * `overrides` field to ensure the same version of @langchain/core is set
+ * across all workspaces.
+ */
+const packageManagerPlugin: Plugin = {
+  name: "package-manager",
+  transformPackageJson(pkgJson, { answers, workspace }) {
+    if (workspace !== "root") return;
+    const pkgManagerMap = {
+      yarn: "yarn@3.5.1",
+      pnpm: "pnpm@10.6.3",
+      npm: "npm@11.2.1",
+      bun: "bun@1.2.5",
+    };
+    const overridesPkgManagerMap = {
+      yarn: "resolutions",
+      pnpm: "resolutions",
+      npm: "overrides",
+      bun: "overrides",
+    };
+
+    const { packageManager } = answers;
+    pkgJson.packageManager = pkgManagerMap[packageManager];
+    pkgJson[overridesPkgManagerMap[packageManager]] = {
+      "@langchain/core": "^0.3.42",
+    };
+    if (overridesPkgManagerMap[packageManager] !== "resolutions") {
+      delete pkgJson["resolutions"];
+    }
+  },
+};
+
+/**
+ * Replaces the dependency ranges of projects created with `pin` with the
+ * exact versions this release of the CLI was tested with. It runs after
+ * every other built-in plugin, so the dependencies and overrides they add are
+ * pinned too. Ranges without a pinned version, e.g. the ones of custom
+ * templates, are kept and reported.
+ */
+const pinVersionsPlugin: Plugin = {
+  name: "pin-versions",
+  async transformPackageJson(pkgJson, { answers, workspace, logger }) {
+    if (!answers.pin) return;
+    const pinned = await loadPinnedVersions();
+    const unpinned: string[] = [];
+    for (const field of PINNED_DEPENDENCY_FIELDS) {
+      if (!pkgJson[field]) continue;
+      const result = pinDependencies(pkgJson[field], pinned);
+      pkgJson[field] = result.dependencies;
+      unpinned.push(...result.unpinned);
+    }
+    if (unpinned.length > 0) {
+      logger.warn(
+        `No pinned versions for the ${workspace} package.json dependencies ${unpinned.join(", ")}. Their ranges are kept.`,
+      );
+    }
+  },
+};
+
+/**
+ * Registers the graphs of the selected agents in `langgraph.json`.
+ */
+const langGraphGraphsPlugin: Plugin = {
+  name: "langgraph-graphs",
+  transformLangGraphConfig(config, { agents }) {
+    agents.forEach((agent) => {
+      Object.assign(config.graphs, getAgentGraphs(agent));
+    });
+  },
+};
+
+/**
+ * The plugins every project is generated with. They run before any custom
+ * plugins, in this order, which is also the order the fields they add
+ * appear in.
+ */
+export const BUILT_IN_PLUGINS: Plugin[] = [
+  envFilesPlugin,
+  gitignorePlugin,
+  projectNamePlugin,
+  yarnPlugin,
+  pnpmWorkspacesPlugin,
+  agentDependenciesPlugin,
+  directDependencyWorkaroundPlugin,
+  layoutScriptsPlugin,
+  scopePlugin,
+  dockerPlugin,
+  packageManagerPlugin,
+  pinVersionsPlugin,
+  langGraphGraphsPlugin,
+];
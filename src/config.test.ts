@@ -0,0 +1,81 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { loadConfigFile, validateConfig } from "./config.js";
+
+describe("validateConfig", () => {
+  it("accepts every option of the CLI", () => {
+    expect(
+      validateConfig({
+        $schema: "./schema.json",
+        projectName: "my-app",
+        packageManager: "pnpm",
+        installDeps: false,
+        framework: "vite",
+        agents: ["react"],
+        langGraphPort: 2025,
+        env: { OPENAI_API_KEY: "" },
+        envFrom: "./.env.shared",
+        dryRun: true,
+        keepOnFailure: true,
+        onConflict: "sidecar",
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports unknown keys and invalid values", () => {
+    expect(
+      validateConfig({
+        onConflict: "merge",
+        dryRun: "yes",
+        envFrom: "",
+        unknown: true,
+      }),
+    ).toEqual([
+      '"onConflict" must be one of skip, overwrite, sidecar, received "merge"',
+      '"dryRun" must be true or false',
+      '"envFrom" must be a non-empty string',
+      expect.stringContaining('Unknown key "unknown"'),
+    ]);
+  });
+
+  it("rejects configs which are not objects", () => {
+    expect(validateConfig(["nextjs"])).toEqual([
+      "The config must be an object",
+    ]);
+  });
+});
+
+describe("loadConfigFile", () => {
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), "config-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(configDir);
+  });
+
+  it("returns how the project is created, with paths relative to the config file", async () => {
+    const configPath = path.join(configDir, "agent-chat.config.yaml");
+    await fs.writeFile(
+      configPath,
+      [
+        "installDeps: false",
+        "envFrom: ./.env.shared",
+        "dryRun: true",
+        "keepOnFailure: true",
+        "onConflict: overwrite",
+      ].join("\n"),
+    );
+    expect(await loadConfigFile(configPath, [])).toEqual({
+      autoInstallDeps: false,
+      envFrom: path.join(configDir, ".env.shared"),
+      dryRun: true,
+      keepOnFailure: true,
+      onConflict: "overwrite",
+    });
+  });
+});
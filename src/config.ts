@@ -0,0 +1,387 @@
+import path from "path";
+import fs from "fs-extra";
+import YAML from "yaml";
+import { AgentManifest, resolveAgentManifests } from "./agents.js";
+import { parseProjectName } from "./package-name.js";
+import {
+  CONFLICT_STRATEGIES,
+  ConflictStrategy,
+  EMBEDDINGS_PROVIDERS,
+  EmbeddingsProvider,
+  FRAMEWORKS,
+  Framework,
+  LAYOUTS,
+  Layout,
+  MODEL_PROVIDERS,
+  ModelProvider,
+  PACKAGE_MANAGERS,
+  PackageManager,
+  ProjectAnswers,
+  VECTOR_STORES,
+  VectorStore,
+} from "./types.js";
+
+/**
+ * The options which can be set in an `agent-chat.config.json` (or YAML) file.
+ */
+export interface AgentChatConfig {
+  /**
+   * Name of the project, and the directory it is created in. Paths, e.g.
+   * `../foo`, create the project in that directory, named after its basename.
+   */
+  projectName?: string;
+  /**
+   * The npm scope of the workspaces, e.g. `@acme`.
+   */
+  scope?: string;
+  /**
+   * The package manager to use.
+   */
+  packageManager?: PackageManager;
+  /**
+   * Whether or not to install dependencies after the project is created.
+   */
+  installDeps?: boolean;
+  /**
+   * Whether or not to install dependencies from the package manager's cache.
+   */
+  offline?: boolean;
+  /**
+   * Whether or not to pin dependencies to the exact versions the CLI was tested with.
+   */
+  pin?: boolean;
+  /**
+   * The web framework to use.
+   */
+  framework?: Framework;
+  /**
+   * Which workspaces to generate.
+   */
+  layout?: Layout;
+  /**
+   * The IDs or aliases of the pre-built agents to include.
+   */
+  agents?: string[];
+  /**
+   * The LLM provider the agents use.
+   */
+  modelProvider?: ModelProvider;
+  /**
+   * The vector store the retrieval agents use.
+   */
+  vectorStore?: VectorStore;
+  /**
+   * The embeddings provider the retrieval agents use.
+   */
+  embeddings?: EmbeddingsProvider;
+  /**
+   * A local directory, or `.tgz` file, to generate the web app from.
+   * Relative paths are resolved against the directory of the config file.
+   */
+  template?: string;
+  /**
+   * Local directories, or `.tgz` files, containing custom agent templates.
+   * Relative paths are resolved against the directory of the config file.
+   */
+  agentTemplates?: string[];
+  /**
+   * Local JavaScript modules which default export a plugin.
+   * Relative paths are resolved against the directory of the config file.
+   */
+  plugins?: string[];
+  /**
+   * The title of the chat UI.
+   */
+  appTitle?: string;
+  /**
+   * The port the LangGraph development server listens on.
+   */
+  langGraphPort?: number;
+  /**
+   * Whether or not to generate a Dockerfile and a compose file.
+   */
+  docker?: boolean;
+  /**
+   * Whether or not to initialize a git repository with an initial commit.
+   */
+  git?: boolean;
+  /**
+   * The message of the initial commit.
+   */
+  commitMessage?: string;
+  /**
+   * Default values for environment variables, written to `.env.example`.
+   */
+  env?: Record<string, string>;
+  /**
+   * A `.env` style file, whose values for the environment variables the
+   * agents need are written to `.env`. Relative paths are resolved against
+   * the directory of the config file.
+   */
+  envFrom?: string;
+  /**
+   * Whether or not to only print the files which would be created.
+   */
+  dryRun?: boolean;
+  /**
+   * Whether or not to keep the staging directory if creating the project fails.
+   */
+  keepOnFailure?: boolean;
+  /**
+   * How to handle files which already exist in the target directory.
+   */
+  onConflict?: ConflictStrategy;
+}
+
+/**
+ * The options set in a config file: the answers the project is created
+ * from, and how it is created.
+ */
+export type ConfigFileOptions = Partial<ProjectAnswers> &
+  Pick<AgentChatConfig, "envFrom" | "dryRun" | "keepOnFailure" | "onConflict">;
+
+type ConfigFieldType = "string" | "number" | "boolean" | "string[]" | "record";
+
+interface ConfigField {
+  type: ConfigFieldType;
+  /**
+   * The allowed values, for string fields.
+   */
+  choices?: readonly string[];
+}
+
+/**
+ * The schema every config file is validated against. Every option
+ * the CLI accepts in a config file must be declared here.
+ */
+const CONFIG_SCHEMA: Record<keyof AgentChatConfig, ConfigField> = {
+  projectName: { type: "string" },
+  scope: { type: "string" },
+  packageManager: { type: "string", choices: PACKAGE_MANAGERS },
+  installDeps: { type: "boolean" },
+  offline: { type: "boolean" },
+  pin: { type: "boolean" },
+  framework: { type: "string", choices: FRAMEWORKS },
+  layout: { type: "string", choices: LAYOUTS },
+  agents: { type: "string[]" },
+  modelProvider: { type: "string", choices: MODEL_PROVIDERS },
+  vectorStore: { type: "string", choices: VECTOR_STORES },
+  embeddings: { type: "string", choices: EMBEDDINGS_PROVIDERS },
+  template: { type: "string" },
+  agentTemplates: { type: "string[]" },
+  plugins: { type: "string[]" },
+  appTitle: { type: "string" },
+  langGraphPort: { type: "number" },
+  docker: { type: "boolean" },
+  git: { type: "boolean" },
+  commitMessage: { type: "string" },
+  env: { type: "record" },
+  envFrom: { type: "string" },
+  dryRun: { type: "boolean" },
+  keepOnFailure: { type: "boolean" },
+  onConflict: { type: "string", choices: CONFLICT_STRATEGIES },
+};
+
+/**
+ * Keys which are allowed in a config file, but ignored by the CLI.
+ */
+const IGNORED_CONFIG_KEYS = ["$schema"];
+
+/**
+ * Checks a single value against its schema field.
+ *
+ * @returns {string | undefined} An error message if the value is invalid
+ */
+function validateConfigField(
+  key: string,
+  field: ConfigField,
+  value: unknown,
+): string | undefined {
+  switch (field.type) {
+    case "string":
+      if (typeof value !== "string" || value === "") {
+        return `"${key}" must be a non-empty string`;
+      }
+      if (field.choices && !field.choices.includes(value)) {
+        return `"${key}" must be one of ${field.choices.join(", ")}, received "${value}"`;
+      }
+      return undefined;
+    case "number":
+      return Number.isInteger(value) && (value as number) > 0
+        ? undefined
+        : `"${key}" must be a positive integer`;
+    case "boolean":
+      return typeof value === "boolean"
+        ? undefined
+        : `"${key}" must be true or false`;
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string")
+        ? undefined
+        : `"${key}" must be an array of strings`;
+    case "record":
+      return typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.values(value).every((v) => typeof v === "string")
+        ? undefined
+        : `"${key}" must map names to string values`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Validates the parsed contents of a config file against the config schema.
+ *
+ * @param {unknown} raw - The parsed contents of the config file
+ * @returns {string[]} All validation errors, if any
+ */
+export function validateConfig(raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return ["The config must be an object"];
+  }
+  const validKeys = Object.keys(CONFIG_SCHEMA);
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    if (IGNORED_CONFIG_KEYS.includes(key)) continue;
+    if (!(key in CONFIG_SCHEMA)) {
+      errors.push(
+        `Unknown key "${key}". Valid keys are: ${validKeys.join(", ")}`,
+      );
+      continue;
+    }
+    const error = validateConfigField(
+      key,
+      CONFIG_SCHEMA[key as keyof AgentChatConfig],
+      value,
+    );
+    if (error) {
+      errors.push(error);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Loads, and validates a config file. Files ending in `.yaml` or `.yml` are
+ * parsed as YAML, everything else as JSON.
+ *
+ * @param {string} configPath - The path to the config file
+ * @param {AgentManifest[]} manifests - All available prebuilt agents
+ * @returns {Promise<ConfigFileOptions>} The options set in the config file
+ * @throws {Error} If the file can not be read, parsed, or fails validation
+ */
+export async function loadConfigFile(
+  configPath: string,
+  manifests: AgentManifest[],
+): Promise<ConfigFileOptions> {
+  const resolvedPath = path.resolve(configPath);
+  if (!(await fs.exists(resolvedPath))) {
+    throw new Error(`Config file ${configPath} does not exist`);
+  }
+  const contents = await fs.promises.readFile(resolvedPath, "utf8");
+
+  let raw: unknown;
+  try {
+    raw = [".yaml", ".yml"].includes(path.extname(resolvedPath).toLowerCase())
+      ? YAML.parse(contents)
+      : JSON.parse(contents);
+  } catch (e) {
+    throw new Error(
+      `Failed to parse config file ${configPath}: ${(e as Error).message}`,
+    );
+  }
+
+  const errors = validateConfig(raw);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid config file ${configPath}:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+    );
+  }
+
+  const config = raw as AgentChatConfig;
+  const answers: ConfigFileOptions = {};
+  if (config.projectName !== undefined) {
+    Object.assign(answers, parseProjectName(config.projectName));
+  }
+  if (config.scope !== undefined) {
+    answers.scope = config.scope;
+  }
+  if (config.packageManager !== undefined) {
+    answers.packageManager = config.packageManager;
+  }
+  if (config.installDeps !== undefined) {
+    answers.autoInstallDeps = config.installDeps;
+  }
+  if (config.offline !== undefined) {
+    answers.offline = config.offline;
+  }
+  if (config.pin !== undefined) {
+    answers.pin = config.pin;
+  }
+  if (config.framework !== undefined) {
+    answers.framework = config.framework;
+  }
+  if (config.layout !== undefined) {
+    answers.layout = config.layout;
+  }
+  if (config.agents !== undefined) {
+    answers.agents = resolveAgentManifests(manifests, config.agents).map(
+      (m) => m.id,
+    );
+  }
+  if (config.modelProvider !== undefined) {
+    answers.modelProvider = config.modelProvider;
+  }
+  if (config.vectorStore !== undefined) {
+    answers.vectorStore = config.vectorStore;
+  }
+  if (config.embeddings !== undefined) {
+    answers.embeddings = config.embeddings;
+  }
+  const configDir = path.dirname(resolvedPath);
+  if (config.template !== undefined) {
+    answers.webTemplate = path.resolve(configDir, config.template);
+  }
+  if (config.agentTemplates !== undefined) {
+    answers.agentTemplates = config.agentTemplates.map((template) =>
+      path.resolve(configDir, template),
+    );
+  }
+  if (config.plugins !== undefined) {
+    answers.plugins = config.plugins.map((plugin) =>
+      path.resolve(configDir, plugin),
+    );
+  }
+  if (config.appTitle !== undefined) {
+    answers.appTitle = config.appTitle;
+  }
+  if (config.langGraphPort !== undefined) {
+    answers.langGraphPort = config.langGraphPort;
+  }
+  if (config.docker !== undefined) {
+    answers.docker = config.docker;
+  }
+  if (config.git !== undefined) {
+    answers.git = config.git;
+  }
+  if (config.commitMessage !== undefined) {
+    answers.commitMessage = config.commitMessage;
+  }
+  if (config.env !== undefined) {
+    answers.envDefaults = config.env;
+  }
+  if (config.envFrom !== undefined) {
+    answers.envFrom = path.resolve(configDir, config.envFrom);
+  }
+  if (config.dryRun !== undefined) {
+    answers.dryRun = config.dryRun;
+  }
+  if (config.keepOnFailure !== undefined) {
+    answers.keepOnFailure = config.keepOnFailure;
+  }
+  if (config.onConflict !== undefined) {
+    answers.onConflict = config.onConflict;
+  }
+  return answers;
+}
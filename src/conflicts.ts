@@ -0,0 +1,270 @@
+import path from "path";
+import fs from "fs-extra";
+import { listFiles } from "./project.js";
+import { ConflictStrategy } from "./types.js";
+
+/**
+ * The files which are merged into an existing file, instead of going through
+ * conflict resolution.
+ */
+const MERGED_FILES = ["package.json", ".gitignore"];
+
+/**
+ * The package.json fields whose entries are merged one by one,
+ * instead of being kept or replaced as a whole.
+ */
+const MERGED_PACKAGE_JSON_FIELDS = [
+  "scripts",
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "resolutions",
+  "overrides",
+];
+
+/**
+ * The header written above the lines appended to an existing `.gitignore`.
+ */
+const GITIGNORE_MERGE_HEADER = "# Added by create-agent-chat-app";
+
+/**
+ * What happened to each generated file when it was moved into an existing directory.
+ * Every list contains file paths relative to the project root.
+ */
+export interface MergeSummary {
+  /**
+   * Files which did not exist yet.
+   */
+  created: string[];
+  /**
+   * Existing `package.json` and `.gitignore` files the generated contents were merged into.
+   */
+  merged: string[];
+  /**
+   * Existing files which were kept as they are.
+   */
+  skipped: string[];
+  /**
+   * Existing files which were replaced with the generated file.
+   */
+  overwritten: string[];
+  /**
+   * Generated files which were written next to the existing file, with a `.new` extension.
+   */
+  sidecars: string[];
+  /**
+   * Values in the existing files which differ from the generated files, and were kept.
+   */
+  warnings: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merges a generated package.json into an existing one. Missing fields and
+ * entries are added, but the values the user already set always win.
+ *
+ * @param {Record<string, any>} existing - The user's package.json
+ * @param {Record<string, any>} generated - The generated package.json
+ * @returns The merged package.json, and a warning for every generated value which was not used
+ */
+export function mergePackageJson(
+  existing: Record<string, any>,
+  generated: Record<string, any>,
+): { pkgJson: Record<string, any>; warnings: string[] } {
+  const pkgJson: Record<string, any> = { ...existing };
+  const warnings: string[] = [];
+
+  for (const [key, value] of Object.entries(generated)) {
+    if (!(key in pkgJson)) {
+      pkgJson[key] = value;
+      continue;
+    }
+    if (
+      MERGED_PACKAGE_JSON_FIELDS.includes(key) &&
+      isPlainObject(pkgJson[key]) &&
+      isPlainObject(value)
+    ) {
+      const merged: Record<string, any> = { ...pkgJson[key] };
+      for (const [name, entry] of Object.entries(value)) {
+        if (!(name in merged)) {
+          merged[name] = entry;
+        } else if (JSON.stringify(merged[name]) !== JSON.stringify(entry)) {
+          warnings.push(
+            `package.json: kept your ${key}.${name} (${JSON.stringify(merged[name])}), the generated value was ${JSON.stringify(entry)}`,
+          );
+        }
+      }
+      pkgJson[key] = merged;
+    } else if (
+      key === "workspaces" &&
+      Array.isArray(pkgJson[key]) &&
+      Array.isArray(value)
+    ) {
+      pkgJson[key] = Array.from(new Set([...pkgJson[key], ...value]));
+    } else if (JSON.stringify(pkgJson[key]) !== JSON.stringify(value)) {
+      warnings.push(
+        `package.json: kept your ${key} (${JSON.stringify(pkgJson[key])}), the generated value was ${JSON.stringify(value)}`,
+      );
+    }
+  }
+
+  return { pkgJson, warnings };
+}
+
+/**
+ * Appends the patterns of a generated `.gitignore` which are missing from an
+ * existing one. The existing lines are left untouched.
+ *
+ * @param {string} existing - The contents of the user's .gitignore
+ * @param {string} generated - The contents of the generated .gitignore
+ * @returns {string} The merged contents
+ */
+export function mergeGitignore(existing: string, generated: string): string {
+  const existingLines = new Set(
+    existing.split("\n").map((line) => line.trim()),
+  );
+  const missing = Array.from(
+    new Set(
+      generated
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(
+          (line) =>
+            line !== "" && !line.startsWith("#") && !existingLines.has(line),
+        ),
+    ),
+  );
+  if (missing.length === 0) return existing;
+
+  const separator = existing === "" || existing.endsWith("\n") ? "" : "\n";
+  return `${existing}${separator}\n${GITIGNORE_MERGE_HEADER}\n${missing.join("\n")}\n`;
+}
+
+/**
+ * Merges a generated `package.json` or `.gitignore` into the existing file.
+ *
+ * @returns The merged contents, and a warning for every generated value which was not used
+ */
+function mergeFile(
+  file: string,
+  existing: string,
+  generated: string,
+): { contents: string; warnings: string[] } {
+  if (path.basename(file) === "package.json") {
+    const { pkgJson, warnings } = mergePackageJson(
+      JSON.parse(existing),
+      JSON.parse(generated),
+    );
+    return { contents: JSON.stringify(pkgJson, null, 2) + "\n", warnings };
+  }
+  return { contents: mergeGitignore(existing, generated), warnings: [] };
+}
+
+/**
+ * Finds the generated files which collide with an existing file in the target
+ * directory, and need to be resolved with a conflict strategy. Identical
+ * files, and files which are merged automatically, are not conflicts.
+ *
+ * @param {string} stagingDir - The directory the project was generated in
+ * @param {string} targetDir - The existing directory the project is moved into
+ * @returns {Promise<string[]>} The conflicting file paths, relative to the project root
+ */
+export async function findConflicts(
+  stagingDir: string,
+  targetDir: string,
+): Promise<string[]> {
+  const conflicts: string[] = [];
+  for (const file of await listFiles(stagingDir)) {
+    const dest = path.join(targetDir, file);
+    if (
+      !(await fs.exists(dest)) ||
+      MERGED_FILES.includes(path.basename(file))
+    ) {
+      continue;
+    }
+    const [generated, existing] = await Promise.all([
+      fs.promises.readFile(path.join(stagingDir, file)),
+      fs.promises.readFile(dest),
+    ]);
+    if (!generated.equals(existing)) {
+      conflicts.push(file);
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Moves a generated project into an existing directory. New files are moved
+ * as they are, `package.json` and `.gitignore` files are merged into the
+ * existing ones, and every other collision is resolved with the strategy
+ * chosen for it. The staging directory is removed afterwards.
+ *
+ * @param {string} stagingDir - The directory the project was generated in
+ * @param {string} targetDir - The existing directory to move the project into
+ * @param {Record<string, ConflictStrategy>} resolutions - The strategy for every file returned by `findConflicts`
+ * @returns {Promise<MergeSummary>} What happened to every generated file
+ */
+export async function moveIntoExistingDirectory(
+  stagingDir: string,
+  targetDir: string,
+  resolutions: Record<string, ConflictStrategy>,
+): Promise<MergeSummary> {
+  const summary: MergeSummary = {
+    created: [],
+    merged: [],
+    skipped: [],
+    overwritten: [],
+    sidecars: [],
+    warnings: [],
+  };
+
+  for (const file of await listFiles(stagingDir)) {
+    const src = path.join(stagingDir, file);
+    const dest = path.join(targetDir, file);
+    if (!(await fs.exists(dest))) {
+      await fs.move(src, dest);
+      summary.created.push(file);
+      continue;
+    }
+
+    const [generated, existing] = await Promise.all([
+      fs.promises.readFile(src, "utf8"),
+      fs.promises.readFile(dest, "utf8"),
+    ]);
+    if (generated === existing) continue;
+
+    if (MERGED_FILES.includes(path.basename(file))) {
+      let merged: { contents: string; warnings: string[] };
+      try {
+        merged = mergeFile(file, existing, generated);
+      } catch (e) {
+        throw new Error(`Failed to merge ${file}: ${(e as Error).message}`);
+      }
+      summary.warnings.push(...merged.warnings);
+      if (merged.contents !== existing) {
+        await fs.promises.writeFile(dest, merged.contents);
+        summary.merged.push(file);
+      }
+      continue;
+    }
+
+    switch (resolutions[file] ?? "skip") {
+      case "overwrite":
+        await fs.move(src, dest, { overwrite: true });
+        summary.overwritten.push(file);
+        break;
+      case "sidecar":
+        await fs.move(src, `${dest}.new`, { overwrite: true });
+        summary.sidecars.push(`${file}.new`);
+        break;
+      default:
+        summary.skipped.push(file);
+    }
+  }
+
+  await fs.remove(stagingDir);
+  return summary;
+}
@@ -0,0 +1,944 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { spawn } from "child_process";
+import { fileURLToPath } from "url";
+import {
+  AgentManifest,
+  copyAgentTemplate,
+  getProviderSelection,
+  loadAgentManifests,
+  resolveAgentManifests,
+  selectAgentProviders,
+} from "./agents.js";
+import {
+  MergeSummary,
+  findConflicts,
+  moveIntoExistingDirectory,
+} from "./conflicts.js";
+import { BUILT_IN_PLUGINS } from "./built-in-plugins.js";
+import { GitResult, initGitRepository } from "./git.js";
+import {
+  AfterInstallContext,
+  PackageJsonContext,
+  PackageJsonWorkspace,
+  Plugin,
+  PluginContext,
+  loadPlugins,
+  runPluginHook,
+  transformLangGraphConfig,
+  transformPackageJson,
+} from "./plugins.js";
+import {
+  formatPackageNameError,
+  validatePackageName,
+  validateScope,
+} from "./package-name.js";
+import {
+  InstallCommand,
+  formatInstallCommand,
+  getInstallCommand,
+} from "./package-manager.js";
+import { listFiles } from "./project.js";
+import {
+  TEMPLATE_LOCK_FILE,
+  createTemplateLock,
+  getCliVersion,
+} from "./template-lock.js";
+import { ScaffoldFs, createDiskFs, createVirtualFs } from "./scaffold-fs.js";
+import { TemplateVariables, renderTemplateFiles } from "./template-engine.js";
+import {
+  TemplateSource,
+  resolveTemplateSource,
+  validateAgentTemplate,
+  validateWebTemplate,
+} from "./template-source.js";
+import {
+  ConflictStrategy,
+  Framework,
+  Layout,
+  PackageManager,
+  ProjectAnswers,
+} from "./types.js";
+
+export type {
+  AfterInstallContext,
+  ConflictStrategy,
+  Framework,
+  GitResult,
+  Layout,
+  MergeSummary,
+  PackageJsonContext,
+  PackageJsonWorkspace,
+  PackageManager,
+  Plugin,
+  PluginContext,
+  ProjectAnswers,
+};
+
+// Get the directory name of the current module
+const __filename: string = fileURLToPath(import.meta.url);
+const __dirname: string = path.dirname(__filename);
+
+/**
+ * Receives the progress messages of `createProject`.
+ */
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * The options `createProject` accepts, in addition to the project configuration.
+ */
+export interface CreateProjectOptions extends ProjectAnswers {
+  /**
+   * The directory `directory` and `projectName` are resolved against.
+   * @default process.cwd()
+   */
+  cwd?: string;
+  /**
+   * Generate the project in memory, without writing anything to disk.
+   * @default false
+   */
+  dryRun?: boolean;
+  /**
+   * Keep the staging directory if creating the project fails, for debugging.
+   * @default false
+   */
+  keepOnFailure?: boolean;
+  /**
+   * How to handle generated files which collide with existing files, when
+   * creating the project in a directory which already exists.
+   */
+  onConflict?: ConflictStrategy;
+  /**
+   * The directory containing the templates to generate the project from.
+   * @default The templates bundled with create-agent-chat-app
+   */
+  templatesDir?: string;
+}
+
+/**
+ * The environment `createProject` runs in.
+ */
+export interface CreateProjectContext {
+  /**
+   * Receives progress messages. Nothing is logged by default.
+   */
+  logger?: Logger;
+  /**
+   * Aborts creating the project. The staging directory is removed, and the
+   * returned promise rejects with the abort reason.
+   */
+  signal?: AbortSignal;
+  /**
+   * Chooses how to handle the conflicting files when `onConflict` is not set.
+   * Without it, conflicting files make `createProject` throw.
+   */
+  resolveConflicts?: (
+    conflicts: string[],
+  ) => Promise<Record<string, ConflictStrategy>>;
+  /**
+   * Where the output of the install command goes.
+   * @default "ignore"
+   */
+  installOutput?: "inherit" | "ignore";
+  /**
+   * Plugins to run after the built-in plugins, and the plugins loaded from
+   * `plugins`. Unlike those, they are not recorded in the template lock.
+   * @default []
+   */
+  plugins?: Plugin[];
+  /**
+   * The plugins `plugins` was already loaded as, e.g. to report a broken
+   * plugin before prompting, so they are not loaded again.
+   * @default The plugins loaded from `plugins`
+   */
+  loadedPlugins?: Plugin[];
+}
+
+/**
+ * The outcome of installing the project's dependencies.
+ */
+export interface InstallResult {
+  status: "succeeded" | "failed" | "skipped";
+  /**
+   * The install command which was run, or would have been run.
+   */
+  command: string;
+  /**
+   * Why the install failed.
+   */
+  error?: string;
+}
+
+/**
+ * The command which starts the development servers, and the URLs they listen on.
+ * Servers of workspaces the layout leaves out are not set.
+ */
+export interface DevServers {
+  command: string;
+  web?: string;
+  langgraph?: string;
+}
+
+/**
+ * The outcome of `createProject`.
+ */
+export interface CreateProjectResult {
+  /**
+   * The absolute path of the project.
+   */
+  targetDir: string;
+  dryRun: boolean;
+  /**
+   * Every file which was written, or would have been written in a dry run,
+   * relative to the project root.
+   */
+  files: string[];
+  /**
+   * The contents of every file which would have been written, keyed by
+   * absolute path. Only set for dry runs.
+   */
+  dryRunContents?: Map<string, Buffer>;
+  /**
+   * What happened to every generated file, when the project was created in a
+   * directory which already existed.
+   */
+  merge?: MergeSummary;
+  warnings: string[];
+  install: InstallResult;
+  devServers: DevServers;
+  /**
+   * Whether a git repository was initialized.
+   */
+  git: GitResult;
+}
+
+/**
+ * Thrown by `createProject` when generating the project files failed.
+ */
+export class CreateProjectError extends Error {
+  /**
+   * The errors of every step which failed.
+   */
+  errors: Error[];
+
+  constructor(errors: Error[]) {
+    super(
+      `Failed to create the project:\n${errors.map((e) => `  - ${e.message}`).join("\n")}`,
+    );
+    this.name = "CreateProjectError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * Thrown by `createProject` when the target already exists, and the project
+ * can not be created in it: it is a file, or generated files collide with
+ * existing files, and no conflict strategy was given.
+ */
+export class DirectoryExistsError extends Error {
+  /**
+   * The existing files which collide with generated files, relative to the project root.
+   */
+  conflicts: string[];
+
+  constructor(message: string, conflicts: string[] = []) {
+    super(message);
+    this.name = "DirectoryExistsError";
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Returns the path of a generated file relative to the project root, with
+ * forward slashes on every platform.
+ */
+function toProjectPath(rootDir: string, filePath: string): string {
+  return path.relative(rootDir, filePath).split(path.sep).join("/");
+}
+
+/**
+ * The title of the chat UI, unless another one is chosen.
+ */
+export const DEFAULT_APP_TITLE = "Agent Chat";
+
+/**
+ * The port of the LangGraph development server, unless another one is chosen.
+ */
+export const DEFAULT_LANGGRAPH_PORT = 2024;
+
+/**
+ * App titles are written into JSX and string literals, so they can not
+ * contain characters which would need escaping there.
+ */
+const APP_TITLE_PATTERN = /^[^"'`\\<>{}\n]+$/;
+
+const SILENT_LOGGER: Logger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw signal.reason ?? new Error("The operation was aborted");
+  }
+}
+
+/**
+ * Returns the graph the web app talks to by default: the ReAct agent's, like
+ * the templates, or else the first graph of the included agents.
+ *
+ * @param {AgentManifest[]} agents - The prebuilt agents which are included in the project
+ * @returns {string} The graph ID
+ */
+export function getDefaultAssistantId(agents: AgentManifest[]): string {
+  const graphIds = agents.flatMap((agent) => Object.keys(agent.graphs));
+  return graphIds.includes("agent") ? "agent" : (graphIds[0] ?? "agent");
+}
+
+/**
+ * Returns the variables the project templates are rendered with. These are
+ * the only variables templates can reference:
+ *
+ * - `projectName`, `packageManager`, `framework` and `layout`: The answers of the same name
+ * - `appTitle`: The title of the chat UI
+ * - `langGraphPort`: The port of the LangGraph development server
+ * - `assistantId`: The graph the web app talks to by default
+ *
+ * @param {ProjectAnswers} answers - The resolved project configuration
+ * @param {AgentManifest[]} agents - The prebuilt agents which are included in the project
+ * @returns {TemplateVariables} The template variables
+ */
+export function getTemplateVariables(
+  answers: ProjectAnswers,
+  agents: AgentManifest[],
+): TemplateVariables {
+  return {
+    projectName: answers.projectName,
+    packageManager: answers.packageManager,
+    framework: answers.framework,
+    layout: answers.layout ?? "full",
+    appTitle: answers.appTitle ?? DEFAULT_APP_TITLE,
+    langGraphPort: String(answers.langGraphPort ?? DEFAULT_LANGGRAPH_PORT),
+    assistantId: getDefaultAssistantId(agents),
+  };
+}
+
+/**
+ * Generates every project file inside the base directory: the templates are
+ * copied, and then the plugins finish the project. A step which fails does
+ * not stop the remaining steps from running, so that all errors can be
+ * reported together.
+ *
+ * @param {string} baseDir - The directory to generate the project in
+ * @param inputs - Object containing the following properties:
+ * @param inputs.answers - The resolved project configuration
+ * @param inputs.agents - The prebuilt agents which are included in the project
+ * @param inputs.templatesDir - The directory containing the templates
+ * @param inputs.webTemplateDir - The custom template of the web app, if any
+ * @param inputs.plugins - The plugins to run, in order
+ * @param inputs.scaffoldFs - The filesystem to write to
+ * @param inputs.logger - Receives progress messages
+ * @returns {Promise<Error[]>} The errors of every step which failed
+ */
+async function scaffoldProject(
+  baseDir: string,
+  inputs: {
+    answers: ProjectAnswers;
+    agents: AgentManifest[];
+    templatesDir: string;
+    webTemplateDir?: string;
+    plugins: Plugin[];
+    scaffoldFs: ScaffoldFs;
+    logger: Logger;
+  },
+): Promise<Error[]> {
+  const { answers, agents, templatesDir, plugins, scaffoldFs, logger } = inputs;
+  const { framework } = answers;
+  const layout = answers.layout ?? "full";
+  const includeAgents = layout !== "web-only";
+  const includeWeb = layout !== "agents-only";
+  const variables = getTemplateVariables(answers, agents);
+  const pluginContext: PluginContext = {
+    answers,
+    agents,
+    variables,
+    baseDir,
+    fs: scaffoldFs,
+    logger,
+  };
+  const errors: Error[] = [];
+  const runStep = async (step: () => Promise<void>): Promise<void> => {
+    try {
+      await step();
+    } catch (e) {
+      errors.push(e as Error);
+    }
+  };
+
+  // Create the project directory
+  await scaffoldFs.mkdir(baseDir);
+  errors.push(...(await runPluginHook(plugins, "beforeCopy", pluginContext)));
+
+  // Copy the monorepo template to the base directory. Every other step
+  // depends on it, so there is no point in continuing if this fails.
+  // Web-only projects leave out the agents workspace and the LangGraph config.
+  const monorepoTemplateDir: string = path.join(templatesDir, "monorepo");
+  const agentsOnlyPaths = [
+    path.join(monorepoTemplateDir, "apps", "agents"),
+    path.join(monorepoTemplateDir, "langgraph.json"),
+  ];
+  const isIncluded = (src: string) =>
+    includeAgents ||
+    !agentsOnlyPaths.some(
+      (agentsOnlyPath) =>
+        src === agentsOnlyPath || src.startsWith(agentsOnlyPath + path.sep),
+    );
+  try {
+    await scaffoldFs.copy(monorepoTemplateDir, baseDir, { filter: isIncluded });
+    await renderTemplateFiles(
+      monorepoTemplateDir,
+      baseDir,
+      { variables },
+      scaffoldFs,
+      (file) => isIncluded(path.join(monorepoTemplateDir, file)),
+    );
+  } catch (e) {
+    return [
+      ...errors,
+      new Error(
+        `Failed to copy the monorepo template: ${(e as Error).message}`,
+      ),
+    ];
+  }
+
+  const appsDir: string = path.join(baseDir, "apps");
+  if (includeWeb) {
+    // Create web directory inside apps and copy the framework template
+    const webDir: string = path.join(appsDir, "web");
+    await scaffoldFs.mkdir(webDir);
+
+    // Copy the framework template, or the custom web template, to the web directory
+    const frameworkTemplateDir: string =
+      inputs.webTemplateDir ?? path.join(templatesDir, framework);
+    await runStep(async () => {
+      try {
+        await scaffoldFs.copy(frameworkTemplateDir, webDir);
+        await renderTemplateFiles(
+          frameworkTemplateDir,
+          webDir,
+          { variables },
+          scaffoldFs,
+        );
+      } catch (e) {
+        throw new Error(
+          `Failed to copy the ${inputs.webTemplateDir ? "web" : framework} template: ${(e as Error).message}`,
+        );
+      }
+    });
+  }
+
+  // Get the path to the agents src directory which already exists in the monorepo template
+  const agentsDir: string = path.join(appsDir, "agents", "src");
+
+  // Copy agent templates if selected - run in parallel for better performance
+  await Promise.all(
+    agents.map((agent) =>
+      runStep(async () => {
+        try {
+          await copyAgentTemplate(agent, agentsDir, scaffoldFs, variables);
+          logger.info(`✓ Added ${agent.id}`);
+        } catch (e) {
+          throw new Error(
+            `Failed to copy the ${agent.id} template: ${(e as Error).message}`,
+          );
+        }
+      }),
+    ),
+  );
+
+  errors.push(...(await runPluginHook(plugins, "afterCopy", pluginContext)));
+  const workspaces: PackageJsonWorkspace[] = ["root"];
+  if (includeAgents) workspaces.push("agents");
+  if (includeWeb) workspaces.push("web");
+  for (const workspace of workspaces) {
+    errors.push(
+      ...(await transformPackageJson(plugins, workspace, pluginContext)),
+    );
+  }
+  if (includeAgents) {
+    errors.push(...(await transformLangGraphConfig(plugins, pluginContext)));
+  }
+
+  return errors;
+}
+
+/**
+ * Returns the command which starts the development servers of a project,
+ * and the URLs they listen on.
+ *
+ * @param {PackageManager} packageManager - The package manager of the project
+ * @param {Framework} framework - The framework of the web app
+ * @param {Layout} layout - Which workspaces the project has
+ * @param {number} langGraphPort - The port of the LangGraph development server
+ * @returns {DevServers} The command, and the URLs
+ */
+export function getDevServers(
+  packageManager: PackageManager,
+  framework: Framework,
+  layout: Layout = "full",
+  langGraphPort: number = DEFAULT_LANGGRAPH_PORT,
+): DevServers {
+  return {
+    command: `${packageManager} run dev`,
+    web:
+      layout === "agents-only"
+        ? undefined
+        : framework === "nextjs"
+          ? "http://localhost:3000"
+          : "http://localhost:5173",
+    langgraph:
+      layout === "web-only" ? undefined : `http://localhost:${langGraphPort}`,
+  };
+}
+
+/**
+ * Runs the install command of a package manager inside the project.
+ *
+ * @param {PackageManager} packageManager - The package manager to use
+ * @param {InstallCommand} command - The arguments and environment of the install command
+ * @param {string} targetDir - The root directory of the project
+ * @param {CreateProjectContext} context - Where the output goes, and the abort signal
+ * @returns {Promise<void>} Resolves once the dependencies are installed
+ */
+function installDependencies(
+  packageManager: PackageManager,
+  command: InstallCommand,
+  targetDir: string,
+  context: CreateProjectContext,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(packageManager, command.args, {
+      cwd: targetDir,
+      env: { ...process.env, ...command.env },
+      stdio: context.installOutput ?? "ignore",
+      shell: process.platform === "win32",
+      signal: context.signal,
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${packageManager} install exited with code ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Creates an agent chat app. This is the programmatic equivalent of running
+ * `create-agent-chat-app` without any prompts.
+ *
+ * The project is staged in a temporary directory, and only moved into place
+ * once every file has been created. If any step fails, nothing is written to
+ * the target directory, and a `CreateProjectError` with the errors of every
+ * failed step is thrown.
+ *
+ * @param {CreateProjectOptions} options - The project configuration
+ * @param {CreateProjectContext} context - The logger, abort signal, and conflict resolution
+ * @returns {Promise<CreateProjectResult>} The files written, warnings, and the install outcome
+ * @throws {CreateProjectError} If generating the project files failed
+ * @throws {DirectoryExistsError} If the target is not a directory, or there are unresolved conflicts
+ */
+export async function createProject(
+  options: CreateProjectOptions,
+  context: CreateProjectContext = {},
+): Promise<CreateProjectResult> {
+  const layout = options.layout ?? "full";
+  const langGraphPort = options.langGraphPort ?? DEFAULT_LANGGRAPH_PORT;
+  throwIfAborted(context.signal);
+
+  const projectNameProblems = validatePackageName(options.projectName);
+  if (projectNameProblems.length > 0) {
+    throw new Error(
+      formatPackageNameError(
+        "project name",
+        options.projectName,
+        projectNameProblems,
+      ),
+    );
+  }
+  const scopeProblems =
+    options.scope === undefined ? [] : validateScope(options.scope);
+  if (scopeProblems.length > 0) {
+    throw new Error(
+      formatPackageNameError("scope", options.scope as string, scopeProblems),
+    );
+  }
+  if (
+    options.appTitle !== undefined &&
+    !APP_TITLE_PATTERN.test(options.appTitle)
+  ) {
+    throw new Error(
+      `Invalid app title "${options.appTitle}". It can not contain quotes, backslashes, <, >, { or }`,
+    );
+  }
+  if (
+    !Number.isInteger(langGraphPort) ||
+    langGraphPort < 1 ||
+    langGraphPort > 65535
+  ) {
+    throw new Error(
+      `Invalid LangGraph port "${options.langGraphPort}". It must be a number between 1 and 65535`,
+    );
+  }
+  if (options.webTemplate && layout === "agents-only") {
+    throw new Error(
+      "A web template can not be used in an agents-only project, which has no web app",
+    );
+  }
+  if (options.agentTemplates?.length && layout === "web-only") {
+    throw new Error(
+      "Agent templates can not be used in a web-only project, which has no agents",
+    );
+  }
+
+  const plugins = [
+    ...BUILT_IN_PLUGINS,
+    ...(context.loadedPlugins ?? (await loadPlugins(options.plugins ?? []))),
+    ...(context.plugins ?? []),
+  ];
+
+  // Custom templates are copied into temporary directories, which are
+  // removed again once the project has been created
+  const sources: TemplateSource[] = [];
+  try {
+    let webTemplate: CustomTemplates["web"];
+    if (options.webTemplate) {
+      const source = await resolveTemplateSource(options.webTemplate);
+      sources.push(source);
+      const framework = await validateWebTemplate(source);
+      if (framework !== options.framework) {
+        throw new Error(
+          `The web template ${options.webTemplate} is a ${framework} app, but the framework is set to ${options.framework}`,
+        );
+      }
+      webTemplate = { dir: source.dir, framework };
+    }
+    const agentTemplates: AgentManifest[] = [];
+    for (const template of options.agentTemplates ?? []) {
+      const source = await resolveTemplateSource(template);
+      sources.push(source);
+      agentTemplates.push(await validateAgentTemplate(source));
+    }
+    return await generateProject(
+      options,
+      context,
+      { web: webTemplate, agents: agentTemplates },
+      plugins,
+    );
+  } finally {
+    await Promise.all(sources.map((source) => source.cleanup()));
+  }
+}
+
+/**
+ * The custom templates a project is generated from, in addition to the
+ * bundled templates.
+ */
+interface CustomTemplates {
+  web?: { dir: string; framework: Framework };
+  agents: AgentManifest[];
+}
+
+/**
+ * Generates the project once its custom templates and plugins have been
+ * resolved. See `createProject`.
+ */
+async function generateProject(
+  options: CreateProjectOptions,
+  context: CreateProjectContext,
+  customTemplates: CustomTemplates,
+  plugins: Plugin[],
+): Promise<CreateProjectResult> {
+  const logger = context.logger ?? SILENT_LOGGER;
+  const { projectName, packageManager, autoInstallDeps, framework } = options;
+  const layout = options.layout ?? "full";
+  const langGraphPort = options.langGraphPort ?? DEFAULT_LANGGRAPH_PORT;
+  const offline = autoInstallDeps && options.offline;
+
+  const templatesDir =
+    options.templatesDir ?? path.join(__dirname, "templates");
+  // Custom agent templates replace the prebuilt agents with the same ID
+  const customAgentIds = customTemplates.agents.map((agent) => agent.id);
+  const manifests = (await loadAgentManifests(templatesDir)).filter(
+    (manifest) => !customAgentIds.includes(manifest.id),
+  );
+  // Web-only projects have no agents workspace to add agents to, and
+  // custom agents are always included
+  const agents = resolveAgentManifests(
+    [...manifests, ...customTemplates.agents],
+    layout === "web-only" ? [] : [...options.agents, ...customAgentIds],
+  ).map((agent) => selectAgentProviders(agent, getProviderSelection(options)));
+  const prebuiltAgents = agents.filter(
+    (agent) => !customAgentIds.includes(agent.id),
+  );
+
+  const graphIds = agents.flatMap((agent) => Object.keys(agent.graphs));
+  const duplicateGraphIds = graphIds.filter(
+    (graphId, index) => graphIds.indexOf(graphId) !== index,
+  );
+  if (duplicateGraphIds.length > 0) {
+    throw new Error(
+      `More than one agent registers the graph ${duplicateGraphIds.join(", ")}`,
+    );
+  }
+
+  // The target directory may already exist, in which case the generated
+  // files are merged into it.
+  const targetDir: string = path.resolve(
+    options.cwd ?? process.cwd(),
+    options.directory ?? projectName,
+  );
+  const targetExists = await fs.exists(targetDir);
+  if (targetExists && !(await fs.stat(targetDir)).isDirectory()) {
+    throw new DirectoryExistsError(
+      `${targetDir} already exists, and is not a directory.`,
+    );
+  }
+
+  logger.info(
+    targetExists
+      ? `Project will be added to the existing directory: ${targetDir}\n`
+      : `Project will be created at: ${targetDir}\n`,
+  );
+  if (layout !== "full") {
+    logger.info(`Layout: ${layout}`);
+  }
+  if (layout !== "agents-only") {
+    logger.info(
+      customTemplates.web
+        ? `Framework: ${framework} (from ${options.webTemplate})`
+        : `Framework: ${framework}`,
+    );
+  }
+  if (layout !== "web-only") {
+    if (prebuiltAgents.length === manifests.length) {
+      logger.info("Including: All pre-built agents");
+    } else if (prebuiltAgents.length > 0) {
+      logger.info(
+        `Including agents: ${prebuiltAgents.map((a) => a.label).join(", ")}`,
+      );
+    } else {
+      logger.info("No additional agents selected.");
+    }
+    if (customTemplates.agents.length > 0) {
+      logger.info(
+        `Including custom agents: ${customTemplates.agents.map((a) => a.label).join(", ")}`,
+      );
+    }
+  }
+
+  // In dry-run mode, every file is written to memory instead of the disk.
+  // Otherwise, the project is staged in a temporary directory, and only moved
+  // into place once every step has succeeded.
+  const virtualFs = options.dryRun ? createVirtualFs() : undefined;
+  const scaffoldFs = virtualFs ?? createDiskFs();
+  // The project is staged in a subdirectory of the temporary directory, which
+  // `mkdtemp` creates readable by the current user only, so the project root
+  // gets the usual permissions
+  const stagingDir = virtualFs
+    ? undefined
+    : await fs.mkdtemp(path.join(os.tmpdir(), "create-agent-chat-app-"));
+  const baseDir = stagingDir ? path.join(stagingDir, "project") : targetDir;
+
+  logger.info(
+    virtualFs ? "Planning project files..." : "Creating project files...",
+  );
+
+  const errors = await scaffoldProject(baseDir, {
+    answers: options,
+    agents,
+    templatesDir,
+    webTemplateDir: customTemplates.web?.dir,
+    plugins,
+    scaffoldFs,
+    logger,
+  });
+
+  if (errors.length > 0) {
+    logger.error("\nFailed to create the project:");
+    errors.forEach((error) => logger.error(`  ✗ ${error.message}`));
+    if (!virtualFs) {
+      if (options.keepOnFailure) {
+        logger.error(`\nThe partially created project was kept at ${baseDir}`);
+      } else {
+        await fs.remove(stagingDir as string);
+        logger.error(`\nNo files were written to ${targetDir}`);
+      }
+    }
+    throw new CreateProjectError(errors);
+  }
+
+  // Record the version and hashes of the generated files, so the project can be upgraded later
+  const generatedFiles = new Map<string, Buffer>();
+  if (virtualFs) {
+    virtualFs.files.forEach((contents, filePath) => {
+      generatedFiles.set(toProjectPath(targetDir, filePath), contents);
+    });
+  } else {
+    for (const file of await listFiles(baseDir)) {
+      generatedFiles.set(
+        toProjectPath(baseDir, path.join(baseDir, file)),
+        await fs.promises.readFile(path.join(baseDir, file)),
+      );
+    }
+  }
+  const templateLock = createTemplateLock(
+    await getCliVersion(),
+    { ...options, agents: agents.map((agent) => agent.id) },
+    generatedFiles,
+  );
+  await scaffoldFs.writeFile(
+    path.join(baseDir, TEMPLATE_LOCK_FILE),
+    JSON.stringify(templateLock, null, 2) + "\n",
+  );
+
+  if (virtualFs) {
+    return {
+      targetDir,
+      dryRun: true,
+      files: Array.from(virtualFs.files.keys())
+        .map((filePath) => path.relative(targetDir, filePath))
+        .sort(),
+      dryRunContents: virtualFs.files,
+      warnings: [],
+      install: {
+        status: "skipped",
+        command: formatInstallCommand(
+          packageManager,
+          getInstallCommand(packageManager, offline, options.cwd),
+        ),
+      },
+      devServers: getDevServers(
+        packageManager,
+        framework,
+        layout,
+        langGraphPort,
+      ),
+      git: { status: "skipped" },
+    };
+  }
+
+  // Every step succeeded, so move the project into place
+  let files: string[];
+  let merge: MergeSummary | undefined;
+  try {
+    throwIfAborted(context.signal);
+    if (!targetExists) {
+      files = await listFiles(baseDir);
+      await fs.move(baseDir, targetDir);
+    } else {
+      const conflicts = await findConflicts(baseDir, targetDir);
+      let resolutions: Record<string, ConflictStrategy> = {};
+      if (conflicts.length > 0) {
+        if (options.onConflict) {
+          const strategy = options.onConflict;
+          resolutions = Object.fromEntries(
+            conflicts.map((file) => [file, strategy]),
+          );
+        } else if (context.resolveConflicts) {
+          resolutions = await context.resolveConflicts(conflicts);
+        } else {
+          throw new DirectoryExistsError(
+            `The following files already exist in ${targetDir}:\n${conflicts.map((file) => `  ${file}`).join("\n")}`,
+            conflicts,
+          );
+        }
+      }
+      throwIfAborted(context.signal);
+      merge = await moveIntoExistingDirectory(baseDir, targetDir, resolutions);
+      files = [
+        ...merge.created,
+        ...merge.merged,
+        ...merge.overwritten,
+        ...merge.sidecars,
+      ].sort();
+    }
+  } finally {
+    await fs.remove(stagingDir as string);
+  }
+
+  const installCommand = getInstallCommand(packageManager, offline, targetDir);
+  const result: CreateProjectResult = {
+    targetDir,
+    dryRun: false,
+    files,
+    merge,
+    warnings: merge?.warnings ?? [],
+    install: {
+      status: "skipped",
+      command: formatInstallCommand(packageManager, installCommand),
+    },
+    devServers: getDevServers(packageManager, framework, layout, langGraphPort),
+    git: { status: "skipped" },
+  };
+
+  if (autoInstallDeps) {
+    logger.info("\nInstalling dependencies...");
+    try {
+      await installDependencies(
+        packageManager,
+        installCommand,
+        targetDir,
+        context,
+      );
+      result.install.status = "succeeded";
+      logger.info("\nDependencies installed successfully!");
+    } catch (e) {
+      throwIfAborted(context.signal);
+      result.install.status = "failed";
+      result.install.error = (e as Error).message;
+      logger.error(`\nFailed to install dependencies: ${(e as Error).message}`);
+    }
+  }
+
+  const afterInstallErrors = await runPluginHook(plugins, "afterInstall", {
+    answers: options,
+    agents,
+    variables: getTemplateVariables(options, agents),
+    baseDir: targetDir,
+    fs: createDiskFs(),
+    logger,
+    install: result.install,
+  });
+  afterInstallErrors.forEach((error) => {
+    // The project is already in place, so these are only reported
+    result.warnings.push(error.message);
+    logger.warn(`\n${error.message}`);
+  });
+
+  // The repository is initialized last, so the lockfile is part of the initial commit
+  if (options.git) {
+    throwIfAborted(context.signal);
+    result.git = initGitRepository(targetDir, options.commitMessage);
+    if (result.git.status === "committed") {
+      logger.info("\n✓ Initialized a git repository with an initial commit");
+    } else if (result.git.status === "skipped") {
+      logger.info(
+        `\nSkipped initializing a git repository, ${result.git.reason}`,
+      );
+    } else {
+      logger.warn(
+        `\nFailed to initialize a git repository: ${result.git.reason}`,
+      );
+    }
+  }
+  return result;
+}
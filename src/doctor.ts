@@ -0,0 +1,435 @@
+import path from "path";
+import fs from "fs-extra";
+import chalk from "chalk";
+import {
+  AgentManifest,
+  getAgentEnv,
+  getProviderSelection,
+  selectAgentProviders,
+} from "./agents.js";
+import {
+  findProjectRoot,
+  getInstalledAgents,
+  getProjectPackageManager,
+  getProjectPaths,
+  parseEnvFile,
+  readJsonFile,
+} from "./project.js";
+import { readTemplateLock } from "./template-lock.js";
+
+/**
+ * The outcome of a single check. Warnings are reported, but do not make the
+ * doctor command fail.
+ */
+interface CheckResult {
+  status: "pass" | "warn" | "fail";
+  message: string;
+  /**
+   * How to fix the problem, for warnings and failures.
+   */
+  fix?: string;
+}
+
+/**
+ * A group of related checks, printed under a shared heading.
+ */
+interface CheckSection {
+  title: string;
+  results: CheckResult[];
+}
+
+/**
+ * The package.json fields which declare dependencies.
+ */
+const DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Checks whether a module exports the given symbol, either through an exported
+ * declaration or an `export { ... }` list. This does not follow re-exports
+ * from other modules.
+ *
+ * @param {string} source - The contents of the module
+ * @param {string} symbol - The name of the export
+ * @returns {boolean} Whether the symbol is exported
+ */
+function hasExport(source: string, symbol: string): boolean {
+  if (symbol === "default") {
+    return /^\s*export\s+default\b/m.test(source);
+  }
+  const declaration = new RegExp(
+    `^\\s*export\\s+(?:declare\\s+)?(?:const|let|var|class|(?:async\\s+)?function\\*?)\\s+${escapeRegExp(symbol)}\\b`,
+    "m",
+  );
+  if (declaration.test(source)) return true;
+
+  for (const match of source.matchAll(/export\s*(?:type\s*)?\{([^}]*)\}/g)) {
+    const names = match[1].split(",").map((specifier) => {
+      const parts = specifier.trim().split(/\s+as\s+/);
+      return parts[parts.length - 1].trim();
+    });
+    if (names.includes(symbol)) return true;
+  }
+  return false;
+}
+
+/**
+ * Returns the workspace directories of a project, relative to its root,
+ * which contain a package.json file.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @returns {Promise<string[]>} The workspace directories, e.g. `apps/web`
+ */
+async function getWorkspaceDirs(rootDir: string): Promise<string[]> {
+  const appsDir = path.join(rootDir, "apps");
+  if (!(await fs.exists(appsDir))) return [];
+  const entries = await fs.promises.readdir(appsDir, { withFileTypes: true });
+  const workspaces: string[] = [];
+  for (const entry of entries) {
+    if (
+      entry.isDirectory() &&
+      (await fs.exists(path.join(appsDir, entry.name, "package.json")))
+    ) {
+      workspaces.push(`apps/${entry.name}`);
+    }
+  }
+  return workspaces.sort();
+}
+
+/**
+ * Checks that every entry in the `graphs` field of `langgraph.json` points to
+ * an existing file, which exports the named graph.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @returns {Promise<CheckResult[]>} A result for every graph
+ */
+async function checkGraphs(rootDir: string): Promise<CheckResult[]> {
+  const { langGraphConfigPath } = getProjectPaths(rootDir);
+  let config: Record<string, any>;
+  try {
+    config = await readJsonFile(langGraphConfigPath);
+  } catch (e) {
+    return [
+      {
+        status: "fail",
+        message: `langgraph.json could not be read: ${(e as Error).message}`,
+        fix: "Make sure langgraph.json is valid JSON",
+      },
+    ];
+  }
+
+  const graphs = Object.entries<string>(config.graphs ?? {});
+  if (graphs.length === 0) {
+    return [
+      {
+        status: "warn",
+        message: "langgraph.json does not register any graphs",
+        fix: "Add a prebuilt agent with `create-agent-chat-app add <agent>`",
+      },
+    ];
+  }
+
+  const results: CheckResult[] = [];
+  for (const [graphId, graphPath] of graphs) {
+    const separator = graphPath.lastIndexOf(":");
+    const file = separator === -1 ? graphPath : graphPath.slice(0, separator);
+    const symbol =
+      separator === -1 ? "default" : graphPath.slice(separator + 1);
+    const filePath = path.resolve(rootDir, file);
+
+    if (!(await fs.exists(filePath))) {
+      results.push({
+        status: "fail",
+        message: `${graphId}: ${file} does not exist`,
+        fix: `Update the path of "${graphId}" in langgraph.json, or restore the file`,
+      });
+      continue;
+    }
+    const source = await fs.promises.readFile(filePath, "utf8");
+    if (!hasExport(source, symbol)) {
+      results.push({
+        status: "fail",
+        message: `${graphId}: ${file} does not export ${chalk.cyan(symbol)}`,
+        fix: `Export the graph as \`${symbol}\` from ${file}, or update "${graphId}" in langgraph.json`,
+      });
+      continue;
+    }
+    results.push({ status: "pass", message: `${graphId}: ${graphPath}` });
+  }
+  return results;
+}
+
+/**
+ * Checks that `.env` sets every environment variable the installed prebuilt
+ * agents require.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @param {AgentManifest[]} agents - The prebuilt agents present in the project
+ * @returns {Promise<CheckResult[]>} A result for every installed agent
+ */
+async function checkEnv(
+  rootDir: string,
+  agents: AgentManifest[],
+): Promise<CheckResult[]> {
+  const envPath = path.join(rootDir, ".env");
+  if (!(await fs.exists(envPath))) {
+    return [
+      {
+        status: "fail",
+        message: ".env does not exist",
+        fix: "Copy .env.example to .env, and fill in the values",
+      },
+    ];
+  }
+  if (agents.length === 0) {
+    return [{ status: "pass", message: "No prebuilt agents to check" }];
+  }
+
+  const values = parseEnvFile(await fs.promises.readFile(envPath, "utf8"));
+  return agents.map((agent): CheckResult => {
+    const missing = getAgentEnv(agent).required.filter((key) => !values[key]);
+    if (missing.length > 0) {
+      return {
+        status: "fail",
+        message: `${agent.id}: missing ${missing.join(", ")}`,
+        fix: `Set ${missing.join(", ")} in .env`,
+      };
+    }
+    return {
+      status: "pass",
+      message: `${agent.id}: all required variables are set`,
+    };
+  });
+}
+
+/**
+ * Checks that the workspaces are declared the way the project's package
+ * manager expects: in `pnpm-workspace.yaml` for pnpm, and in the `workspaces`
+ * field of the root package.json for everything else.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @param {Record<string, any>} rootPkgJson - The root package.json
+ * @returns {Promise<CheckResult[]>} The results of the check
+ */
+async function checkWorkspaces(
+  rootDir: string,
+  rootPkgJson: Record<string, any>,
+): Promise<CheckResult[]> {
+  const packageManager = await getProjectPackageManager(rootDir);
+  const pnpmWorkspacePath = path.join(rootDir, "pnpm-workspace.yaml");
+  const hasPnpmWorkspaceFile = await fs.exists(pnpmWorkspacePath);
+  const hasWorkspacesField = Array.isArray(rootPkgJson.workspaces);
+  const results: CheckResult[] = [];
+
+  if (packageManager === "pnpm") {
+    if (!hasPnpmWorkspaceFile) {
+      results.push({
+        status: "fail",
+        message: "pnpm-workspace.yaml does not exist",
+        fix: "Create pnpm-workspace.yaml with `packages: ['apps/*']`",
+      });
+    } else if (
+      !(await fs.promises.readFile(pnpmWorkspacePath, "utf8")).includes(
+        "apps/*",
+      )
+    ) {
+      results.push({
+        status: "warn",
+        message: "pnpm-workspace.yaml does not include apps/*",
+        fix: "Add `- 'apps/*'` to the packages in pnpm-workspace.yaml",
+      });
+    } else {
+      results.push({
+        status: "pass",
+        message: "pnpm-workspace.yaml includes apps/*",
+      });
+    }
+    if (hasWorkspacesField) {
+      results.push({
+        status: "warn",
+        message: "package.json has a workspaces field, which pnpm ignores",
+        fix: "Remove the workspaces field from package.json",
+      });
+    }
+    return results;
+  }
+
+  if (!hasWorkspacesField) {
+    results.push({
+      status: "fail",
+      message: "package.json does not have a workspaces field",
+      fix: 'Add `"workspaces": ["apps/*"]` to package.json',
+    });
+  } else if (!rootPkgJson.workspaces.includes("apps/*")) {
+    results.push({
+      status: "warn",
+      message: "The workspaces field in package.json does not include apps/*",
+      fix: 'Add "apps/*" to the workspaces field in package.json',
+    });
+  } else {
+    results.push({
+      status: "pass",
+      message: "package.json workspaces include apps/*",
+    });
+  }
+  if (hasPnpmWorkspaceFile) {
+    results.push({
+      status: "warn",
+      message: `pnpm-workspace.yaml exists, but the project uses ${packageManager}`,
+      fix: "Remove pnpm-workspace.yaml",
+    });
+  }
+  return results;
+}
+
+/**
+ * Checks that every workspace, and the root `resolutions` or `overrides`
+ * field, declare the same version of `@langchain/core`. Mismatched versions
+ * install multiple copies, which breaks `instanceof` checks across packages.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @param {Record<string, any>} rootPkgJson - The root package.json
+ * @returns {Promise<CheckResult[]>} The results of the check
+ */
+async function checkLangChainCoreVersions(
+  rootDir: string,
+  rootPkgJson: Record<string, any>,
+): Promise<CheckResult[]> {
+  const packageManager = await getProjectPackageManager(rootDir);
+  const overridesField =
+    packageManager === "npm" || packageManager === "bun"
+      ? "overrides"
+      : "resolutions";
+  const results: CheckResult[] = [];
+
+  // Where each version is declared, keyed by version
+  const versions = new Map<string, string[]>();
+  const addVersion = (version: unknown, source: string) => {
+    if (typeof version !== "string") return;
+    versions.set(version, [...(versions.get(version) ?? []), source]);
+  };
+
+  const rootVersion = rootPkgJson[overridesField]?.["@langchain/core"];
+  if (typeof rootVersion === "string") {
+    addVersion(rootVersion, `package.json ${overridesField}`);
+  } else {
+    results.push({
+      status: "fail",
+      message: `package.json does not pin @langchain/core in ${overridesField}`,
+      fix: `Add "@langchain/core" to the ${overridesField} field of package.json, so every workspace uses the same version`,
+    });
+  }
+
+  for (const workspace of await getWorkspaceDirs(rootDir)) {
+    const pkgJson = await readJsonFile(
+      path.join(rootDir, workspace, "package.json"),
+    );
+    for (const field of DEPENDENCY_FIELDS) {
+      addVersion(
+        pkgJson[field]?.["@langchain/core"],
+        `${workspace}/package.json ${field}`,
+      );
+    }
+  }
+
+  if (versions.size > 1) {
+    const declared = Array.from(versions.entries())
+      .map(([version, sources]) => `${version} (${sources.join(", ")})`)
+      .join("; ");
+    results.push({
+      status: "fail",
+      message: `@langchain/core versions disagree: ${declared}`,
+      fix: `Use the same @langchain/core version in every workspace and in the ${overridesField} field, then reinstall`,
+    });
+  } else if (versions.size === 1) {
+    const [version] = versions.keys();
+    results.push({
+      status: "pass",
+      message: `@langchain/core is ${version} everywhere`,
+    });
+  }
+  return results;
+}
+
+/**
+ * Prints the results of every check, with a suggested fix for each problem.
+ *
+ * @param {CheckSection[]} sections - The checks to print
+ */
+function printReport(sections: CheckSection[]): void {
+  const icons = {
+    pass: chalk.green("✓"),
+    warn: chalk.yellow("!"),
+    fail: chalk.red("✗"),
+  };
+  for (const section of sections) {
+    console.log(chalk.bold(section.title));
+    for (const result of section.results) {
+      console.log(`  ${icons[result.status]} ${result.message}`);
+      if (result.fix) {
+        console.log(`    ${chalk.gray(`Fix: ${result.fix}`)}`);
+      }
+    }
+    console.log();
+  }
+}
+
+/**
+ * Validates a generated project: the graphs registered in `langgraph.json`,
+ * the environment variables the installed agents need, the workspace
+ * configuration, and the `@langchain/core` versions across workspaces.
+ *
+ * @param {AgentManifest[]} manifests - All available prebuilt agents
+ * @param {string} cwd - The directory the command was run from
+ * @returns {Promise<boolean>} Whether every check passed, ignoring warnings
+ */
+export async function runDoctor(
+  manifests: AgentManifest[],
+  cwd: string,
+): Promise<boolean> {
+  const rootDir = await findProjectRoot(cwd);
+  const paths = getProjectPaths(rootDir);
+  console.log(`Checking project: ${chalk.green(rootDir)}\n`);
+
+  const [rootPkgJson, installedAgents, lock] = await Promise.all([
+    readJsonFile(paths.rootPkgJsonPath),
+    getInstalledAgents(rootDir, manifests),
+    readTemplateLock(rootDir),
+  ]);
+  // Only the providers the project was generated for need their variables set
+  const selection = getProviderSelection(lock?.answers ?? {});
+  const agents = installedAgents.map((agent) =>
+    selectAgentProviders(agent, selection),
+  );
+  const sections: CheckSection[] = [
+    { title: "Graphs", results: await checkGraphs(rootDir) },
+    {
+      title: "Environment variables",
+      results: await checkEnv(rootDir, agents),
+    },
+    {
+      title: "Workspaces",
+      results: await checkWorkspaces(rootDir, rootPkgJson),
+    },
+    {
+      title: "@langchain/core versions",
+      results: await checkLangChainCoreVersions(rootDir, rootPkgJson),
+    },
+  ];
+  printReport(sections);
+
+  const results = sections.flatMap((section) => section.results);
+  const count = (status: CheckResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+  const failed = count("fail");
+  const summary = `${count("pass")} passed, ${count("warn")} warnings, ${failed} failed`;
+  console.log(failed > 0 ? chalk.red(summary) : chalk.green(summary));
+  return failed === 0;
+}
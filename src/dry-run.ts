@@ -0,0 +1,58 @@
+import path from "path";
+import fs from "fs-extra";
+import chalk from "chalk";
+
+/**
+ * The generated files whose full contents are printed in a dry run,
+ * relative to the root of the project.
+ */
+const PRINTED_FILES = [
+  "package.json",
+  path.join("apps", "agents", "package.json"),
+  "langgraph.json",
+  ".env.example",
+];
+
+/**
+ * Prints the result of a dry run: every file which would have been created,
+ * marking those which already exist in the target directory, the contents
+ * of the generated configuration files, and the install command which would
+ * have been run.
+ *
+ * @param {string} targetDir - The directory the project would be created in
+ * @param {Map<string, Buffer>} generatedFiles - The contents of every generated file, keyed by absolute path
+ * @param {object} options - Additional options
+ * @param {string | undefined} options.installCommand - The install command which would run, if dependencies are installed automatically
+ */
+export async function printDryRunPlan(
+  targetDir: string,
+  generatedFiles: Map<string, Buffer>,
+  options: { installCommand?: string },
+): Promise<void> {
+  const files = Array.from(generatedFiles.keys())
+    .map((filePath) => path.relative(targetDir, filePath))
+    .sort();
+
+  console.log(chalk.green("\nDry run complete. No files were written."));
+  console.log(
+    `\nThe following ${files.length} files would be created in ${chalk.green(targetDir)}:`,
+  );
+  for (const file of files) {
+    const exists = await fs.exists(path.resolve(targetDir, file));
+    console.log(`  ${file}${exists ? chalk.yellow(" (already exists)") : ""}`);
+  }
+
+  for (const file of PRINTED_FILES) {
+    const contents = generatedFiles.get(path.resolve(targetDir, file));
+    if (!contents) continue;
+    console.log(`\n${chalk.cyan(file)}:`);
+    console.log(contents.toString("utf8").trimEnd());
+  }
+
+  console.log(`\n${chalk.cyan("Install command")}:`);
+  console.log(
+    options.installCommand
+      ? `  ${options.installCommand}`
+      : "  None, dependencies would not be installed automatically",
+  );
+}
@@ -0,0 +1,172 @@
+import path from "path";
+import fs from "fs-extra";
+import chalk from "chalk";
+import { fileURLToPath } from "url";
+import {
+  copyAgentTemplate,
+  getProviderSelection,
+  loadAgentManifest,
+  selectAgentProviders,
+} from "./agents.js";
+import {
+  appendEnvExampleKeys,
+  mergeAgentDependencies,
+  registerAgentGraphs,
+} from "./add.js";
+import {
+  findProjectRoot,
+  getProjectPackageManager,
+  getProjectPaths,
+  readJsonFile,
+} from "./project.js";
+import { loadPinnedVersions } from "./pinned-versions.js";
+import { readTemplateLock } from "./template-lock.js";
+
+// Get the directory name of the current module
+const __filename: string = fileURLToPath(import.meta.url);
+const __dirname: string = path.dirname(__filename);
+
+/**
+ * The template new custom agents are generated from. It is nested inside
+ * `templates/generators`, so it is not discovered as a prebuilt agent.
+ */
+const AGENT_SKELETON_DIR = path.join(
+  __dirname,
+  "templates",
+  "generators",
+  "agent",
+);
+
+/**
+ * Lowercase words separated by dashes, e.g. `my-agent`, so the name is a
+ * valid directory name everywhere, and maps to a valid graph ID.
+ */
+const AGENT_NAME_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+/**
+ * Points the web app's default assistant at a graph: the assistant ID in
+ * `apps/web/.env.example`, and `.env` if it exists, and the fallback the
+ * stream provider uses when no assistant ID is set.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @param {string} graphId - The ID of the graph
+ * @returns {Promise<string[]>} The files which were changed, relative to the project root
+ */
+async function setDefaultAssistant(
+  rootDir: string,
+  graphId: string,
+): Promise<string[]> {
+  const envPattern = /^((?:NEXT_PUBLIC_|VITE_)ASSISTANT_ID)=.*$/m;
+  const replacements: [string, RegExp, string][] = [
+    [".env.example", envPattern, `$1=${graphId}`],
+    [".env", envPattern, `$1=${graphId}`],
+    [
+      path.join("src", "providers", "Stream.tsx"),
+      /^(const DEFAULT_ASSISTANT_ID = )"[^"]*";$/m,
+      `$1"${graphId}";`,
+    ],
+  ];
+  const changed: string[] = [];
+  for (const [file, pattern, replacement] of replacements) {
+    const filePath = path.join(rootDir, "apps", "web", file);
+    if (!(await fs.exists(filePath))) continue;
+    const contents = await fs.promises.readFile(filePath, "utf8");
+    const updated = contents.replace(pattern, replacement);
+    if (updated !== contents) {
+      await fs.promises.writeFile(filePath, updated);
+      changed.push(path.join("apps", "web", file));
+    }
+  }
+  return changed;
+}
+
+/**
+ * Creates a blank custom agent in `apps/agents/src/<name>`, from a minimal
+ * template with a single model node, a configuration module, prompts, and
+ * test stubs. Its graph is registered in `langgraph.json`, and it uses the
+ * LLM provider the project was created with.
+ *
+ * @param {string} name - The name of the agent, e.g. `my-agent`
+ * @param {string} cwd - The directory the command was run from
+ * @param {object} options - Additional options
+ * @param {boolean} options.defaultAssistant - Make the agent the web app's default assistant
+ */
+export async function generateAgent(
+  name: string,
+  cwd: string,
+  options: { defaultAssistant?: boolean } = {},
+): Promise<void> {
+  if (!AGENT_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid agent name "${name}". Use lowercase letters, numbers and dashes, e.g. my-agent`,
+    );
+  }
+
+  const rootDir = await findProjectRoot(cwd);
+  const paths = getProjectPaths(rootDir);
+  if (await fs.exists(path.join(paths.agentsSrcDir, name))) {
+    throw new Error(`apps/agents/src/${name} already exists`);
+  }
+  const graphId = name.replace(/-/g, "_");
+  const langGraphConfig = await readJsonFile(paths.langGraphConfigPath);
+  if (graphId in (langGraphConfig.graphs ?? {})) {
+    throw new Error(
+      `Graph ${graphId} is already registered in langgraph.json. Choose another name.`,
+    );
+  }
+
+  const skeleton = await loadAgentManifest(AGENT_SKELETON_DIR);
+  const lock = await readTemplateLock(rootDir);
+  const agent = selectAgentProviders(
+    {
+      ...skeleton,
+      id: name,
+      alias: name,
+      label: name,
+      graphs: { [graphId]: Object.values(skeleton.graphs)[0] },
+    },
+    getProviderSelection(lock?.answers ?? {}),
+  );
+
+  await copyAgentTemplate(agent, paths.agentsSrcDir);
+  console.log(
+    `${chalk.green("✓")} Created ${chalk.cyan(`apps/agents/src/${name}`)}`,
+  );
+
+  // Projects created with pinned versions get the new dependencies pinned too
+  const pinned = lock?.answers.pin ? await loadPinnedVersions() : undefined;
+  const [dependencies, envVars] = await Promise.all([
+    mergeAgentDependencies(paths.agentsPkgJsonPath, [agent], pinned),
+    appendEnvExampleKeys(paths.envExamplePath, [agent]),
+    registerAgentGraphs(paths.langGraphConfigPath, [agent]),
+  ]);
+  console.log(`${chalk.green("✓")} Registered graph ${chalk.cyan(graphId)}`);
+
+  if (options.defaultAssistant) {
+    const changed = await setDefaultAssistant(rootDir, graphId);
+    if (changed.length > 0) {
+      console.log(
+        `${chalk.green("✓")} Made ${chalk.cyan(graphId)} the default assistant in ${chalk.cyan(changed.join(", "))}`,
+      );
+    } else {
+      console.log(
+        `${chalk.yellow("Warning: ")} No default assistant was found to change in apps/web`,
+      );
+    }
+  }
+
+  if (dependencies.length > 0) {
+    console.log(`\nAdded dependencies: ${chalk.cyan(dependencies.join(", "))}`);
+  }
+  if (envVars.length > 0) {
+    console.log(
+      `Added to .env.example: ${chalk.cyan(envVars.join(", "))}\n  Remember to set them in your .env file.`,
+    );
+  }
+  if (dependencies.length > 0) {
+    const packageManager = await getProjectPackageManager(rootDir);
+    console.log(`
+To install the new dependencies, run:
+  ${chalk.cyan(`${packageManager} install`)}`);
+  }
+}
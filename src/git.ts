@@ -0,0 +1,104 @@
+import path from "path";
+import fs from "fs-extra";
+import { execFileSync } from "child_process";
+
+/**
+ * The commit message used when none is configured.
+ */
+export const DEFAULT_COMMIT_MESSAGE =
+  "Initial commit from create-agent-chat-app";
+
+/**
+ * The outcome of initializing a git repository in a new project.
+ */
+export interface GitResult {
+  status: "committed" | "skipped" | "failed";
+  /**
+   * Why the repository was not initialized, or the commit failed.
+   */
+  reason?: string;
+}
+
+/**
+ * Runs a git command, and returns its trimmed output.
+ */
+function git(args: string[], cwd: string): string {
+  return execFileSync("git", args, {
+    cwd,
+    stdio: ["ignore", "pipe", "pipe"],
+  })
+    .toString()
+    .trim();
+}
+
+/**
+ * Summarizes why a git command failed in one line. Git explains a missing
+ * identity over several lines, so it is replaced with a hint to set one.
+ */
+function summarizeGitError(e: unknown): string {
+  const stderr = (e as { stderr?: Buffer }).stderr?.toString().trim() ?? "";
+  if (/Please tell me who you are|empty ident name/.test(stderr)) {
+    return `no git identity is configured. Set one with ${[
+      'git config --global user.name "Your Name"',
+      'git config --global user.email "you@example.com"',
+    ].join(" and ")}, then commit the project yourself`;
+  }
+  const lines = stderr.split("\n").map((line) => line.trim());
+  return (
+    lines.find((line) => /^(fatal|error):/.test(line)) ||
+    lines.find((line) => line !== "") ||
+    (e as Error).message.split("\n")[0]
+  );
+}
+
+function isGitAvailable(): boolean {
+  try {
+    execFileSync("git", ["--version"], { stdio: "ignore" });
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+function isInsideWorkTree(dir: string): boolean {
+  try {
+    return git(["rev-parse", "--is-inside-work-tree"], dir) === "true";
+  } catch (_) {
+    return false;
+  }
+}
+
+/**
+ * Initializes a git repository in a new project, and commits every file.
+ * Nothing is done if git is not installed, or the project is already inside
+ * a git work tree. If the commit fails, e.g. because no git identity is
+ * configured, the new repository is removed again.
+ *
+ * @param {string} targetDir - The root directory of the project
+ * @param {string} commitMessage - The message of the initial commit
+ * @returns {GitResult} Whether the initial commit was created
+ */
+export function initGitRepository(
+  targetDir: string,
+  commitMessage: string = DEFAULT_COMMIT_MESSAGE,
+): GitResult {
+  if (!isGitAvailable()) {
+    return { status: "skipped", reason: "git is not installed" };
+  }
+  if (isInsideWorkTree(targetDir)) {
+    return {
+      status: "skipped",
+      reason: "the project is already inside a git repository",
+    };
+  }
+
+  try {
+    git(["init"], targetDir);
+    git(["add", "-A"], targetDir);
+    git(["commit", "--no-verify", "-m", commitMessage], targetDir);
+    return { status: "committed" };
+  } catch (e) {
+    fs.removeSync(path.join(targetDir, ".git"));
+    return { status: "failed", reason: summarizeGitError(e) };
+  }
+}
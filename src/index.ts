@@ -4,13 +4,76 @@ import path from "path";
 import fs from "fs-extra";
 import chalk, { ChalkInstance } from "chalk";
 import { fileURLToPath } from "url";
-import { execSync } from "child_process";
 import { Command } from "commander";
 import {
-  BASE_GITIGNORE,
-  NEXTJS_GITIGNORE,
-  VITE_GITIGNORE,
-} from "./gitignore.js";
+  AgentManifest,
+  getAgentEnv,
+  getAgentEnvVars,
+  getProviderSelection,
+  loadAgentManifests,
+  resolveAgentManifests,
+  selectAgentProviders,
+} from "./agents.js";
+import { addAgents } from "./add.js";
+import { removeAgents } from "./remove.js";
+import { runDoctor } from "./doctor.js";
+import { upgradeProject } from "./upgrade.js";
+import { getCliVersion } from "./template-lock.js";
+import { generateAgent } from "./generate.js";
+import { parseEnvFile } from "./project.js";
+import { loadConfigFile } from "./config.js";
+import { DEFAULT_COMMIT_MESSAGE } from "./git.js";
+import { printDryRunPlan } from "./dry-run.js";
+import {
+  detectPackageManager,
+  getInstalledPackageManagers,
+  getPackageManagerVersion,
+} from "./package-manager.js";
+import { MergeSummary } from "./conflicts.js";
+import {
+  resolveTemplateSource,
+  validateAgentTemplate,
+  validateWebTemplate,
+} from "./template-source.js";
+import { Plugin, loadPlugins } from "./plugins.js";
+import {
+  formatPackageNameError,
+  parseProjectName,
+  validatePackageName,
+  validateScope,
+} from "./package-name.js";
+import {
+  CreateProjectError,
+  CreateProjectResult,
+  DEFAULT_APP_TITLE,
+  DEFAULT_LANGGRAPH_PORT,
+  DevServers,
+  DirectoryExistsError,
+  Logger,
+  createProject,
+} from "./create-project.js";
+import {
+  EXIT_CODES,
+  createJsonReport,
+  printJsonReport,
+} from "./json-report.js";
+import {
+  CONFLICT_STRATEGIES,
+  ConflictStrategy,
+  EMBEDDINGS_PROVIDERS,
+  EmbeddingsProvider,
+  FRAMEWORKS,
+  Framework,
+  LAYOUTS,
+  Layout,
+  MODEL_PROVIDERS,
+  ModelProvider,
+  PACKAGE_MANAGERS,
+  PackageManager,
+  ProjectAnswers,
+  VECTOR_STORES,
+  VectorStore,
+} from "./types.js";
 import {
   intro,
   confirm,
@@ -19,549 +82,226 @@ import {
   isCancel,
   cancel,
   text,
+  password,
+  log,
 } from "@clack/prompts";
 
 // Get the directory name of the current module
 const __filename: string = fileURLToPath(import.meta.url);
 const __dirname: string = path.dirname(__filename);
 
-const VERSION = "0.1.4";
-
-type PackageManager = "npm" | "pnpm" | "yarn";
-type Framework = "nextjs" | "vite";
-
 /**
- * Whether or not specific prebuilt agents should be included
- * in the project. Each individual agent defaults to false.
+ * The names of the providers shown in the prompts.
  */
-type IncludeAgents = {
-  /**
-   * @default false
-   */
-  includeReactAgent: boolean;
-  /**
-   * @default false
-   */
-  includeMemoryAgent: boolean;
-  /**
-   * @default false
-   */
-  includeResearchAgent: boolean;
-  /**
-   * @default false
-   */
-  includeRetrievalAgent: boolean;
+const PROVIDER_LABELS: Record<string, string> = {
+  anthropic: "Anthropic",
+  google: "Google Gemini",
+  ollama: "Ollama (local)",
+  elastic: "Elasticsearch (Elastic Cloud)",
+  "elastic-local": "Elasticsearch (self-hosted)",
+  pinecone: "Pinecone",
+  mongodb: "MongoDB Atlas",
+  openai: "OpenAI",
+  cohere: "Cohere",
 };
 
-interface ProjectAnswers extends IncludeAgents {
-  /**
-   * @default "agent-chat-app"
-   */
-  projectName: string;
-  /**
-   * @default "npm"
-   */
-  packageManager: PackageManager;
-  /**
-   * @default true
-   */
-  autoInstallDeps: boolean;
-  /**
-   * @default "nextjs"
-   */
-  framework: Framework;
-}
-
 /**
- * Creates a .yarnrc.yml file in the base directory of the project.
+ * Creates a message to display to the user after the project has been created.
  *
- * @param {string} baseDir - The base directory of the project
  * @param {ChalkInstance} chalk - The chalk instance for logging
+ * @param {DevServers} devServers - The command which starts the development servers, and their URLs
+ * @param {Framework} framework - The framework to use
+ * @param {Layout} layout - Which workspaces the project has
+ * @returns {string} The message to display
  */
-async function createYarnRcYml(
-  baseDir: string,
+const createStartServersMessage = (
   chalk: ChalkInstance,
-): Promise<void> {
-  const yarnRcYmlContents = `nodeLinker: node-modules
+  devServers: DevServers,
+  framework: "nextjs" | "vite",
+  layout: Layout = "full",
+): string => {
+  if (layout === "agents-only") {
+    return `Then, start the LangGraph development server:
+  ${chalk.cyan(devServers.command)}
 
-enableImmutableInstalls: false
-`;
-  const fileName = `.yarnrc.yml`;
+This will start the LangGraph server at:
+  ${chalk.cyan(devServers.langgraph)}
 
-  try {
-    await fs.promises.writeFile(
-      path.join(baseDir, fileName),
-      yarnRcYmlContents,
-    );
-  } catch (_) {
-    console.log(`${chalk.red("Error: ")} Failed to create ${fileName}`);
+Connect your frontend to it, or open it in LangGraph Studio.`;
   }
-}
+  if (layout === "web-only") {
+    const apiUrlVar =
+      framework === "nextjs" ? "NEXT_PUBLIC_API_URL" : "VITE_API_URL";
+    return `Then, point the chat UI at your LangGraph deployment by setting ${chalk.cyan(apiUrlVar)} in ${chalk.cyan("apps/web/.env")}, and start the web development server:
+  ${chalk.cyan(devServers.command)}
 
-/**
- * Sets the `packageManager` field in package.json, and the `overrides` field
- * to ensure the same version of @langchain/core is set across all workspaces.
- *
- * @param {PackageManager} packageManager - The package manager to use
- * @param {string} baseDir - The base directory of the project
- * @param {ChalkInstance} chalk - The chalk instance for logging
- */
-async function setPackageJsonFields(
-  packageManager: PackageManager,
-  baseDir: string,
-  chalk: ChalkInstance,
-): Promise<void> {
-  // Add the `packageManager` field to package.json
-  const pkgManagerMap = {
-    yarn: "yarn@3.5.1",
-    pnpm: "pnpm@10.6.3",
-    npm: "npm@11.2.1",
-  };
+This will start the web server at:
+  ${chalk.cyan(devServers.web)}`;
+  }
+  return `Then, start both the web, and LangGraph development servers with one command:
+  ${chalk.cyan(devServers.command)}
 
-  // Overrides to ensure the same version of @langchain/core is set across all workspaces.
-  const overridesPkgManagerMap = {
-    yarn: "resolutions",
-    pnpm: "resolutions",
-    npm: "overrides",
-  };
+This will start the web server at:
+  ${chalk.cyan(devServers.web)}
 
-  try {
-    const pkgJsonPath = path.join(baseDir, "package.json");
-    const pkgJson: Record<string, any> = JSON.parse(
-      await fs.promises.readFile(pkgJsonPath, "utf8"),
-    );
-    pkgJson.packageManager = `${pkgManagerMap[packageManager]}`;
-    pkgJson[overridesPkgManagerMap[packageManager]] = {
-      "@langchain/core": "^0.3.42",
-    };
-    if (packageManager === "npm") {
-      delete pkgJson["resolutions"];
-    }
-    await fs.promises.writeFile(pkgJsonPath, JSON.stringify(pkgJson, null, 2));
-  } catch (_) {
-    console.log(
-      `${chalk.red("Error: ")} Failed to set package manager in package.json`,
-    );
-  }
-}
+And the LangGraph server at:
+  ${chalk.cyan(devServers.langgraph)}`;
+};
 
 /**
- * Writes the .gitignore file for the project. This creates one in the root of the project,
- * along with one inside the web directory.
+ * Creates a message which explains how to run the project with the
+ * generated Docker setup.
  *
- * @param {string} baseDir - The base directory of the project
- * @param {Framework} framework - The framework to use
  * @param {ChalkInstance} chalk - The chalk instance for logging
+ * @param {PackageManager} packageManager - The package manager to use
+ * @returns {string} The message to display
  */
-async function writeGitignore(
-  baseDir: string,
-  framework: Framework,
+const createDockerMessage = (
   chalk: ChalkInstance,
-): Promise<void> {
-  try {
-    const gitignorePath = path.join(baseDir, ".gitignore");
-    // Write the base .gitignore file in the root
-    await fs.promises.writeFile(gitignorePath, BASE_GITIGNORE);
-
-    // write the framework-specific .gitignore file inside baseDir/apps/web
-    const frameworkGitignorePath = path.join(
-      baseDir,
-      "apps",
-      "web",
-      ".gitignore",
-    );
-    if (framework === "nextjs") {
-      await fs.promises.writeFile(frameworkGitignorePath, NEXTJS_GITIGNORE);
-    } else {
-      await fs.promises.writeFile(frameworkGitignorePath, VITE_GITIGNORE);
-    }
-  } catch (_) {
-    console.log(`${chalk.red("Error: ")} Failed to write .gitignore`);
-  }
-}
+  packageManager: PackageManager,
+): string => `To run the project with Docker instead, build the images and start the containers:
+  ${chalk.cyan(`${packageManager} run docker:build`)}
+  ${chalk.cyan(`${packageManager} run docker:up`)}`;
 
 /**
- * Updates the 'graph' field in the 'langgraph.json' configuration
- * file with the selected prebuilt agents.
+ * Checks the value of a command-line option which only accepts some values.
  *
- * @param {string} baseDir - The base directory of the project
- * @param {ChalkInstance} chalk - The chalk instance for logging
- * @param {IncludeAgents} args The prebuilt agents which are included in the project
+ * @param {string} flag - The name of the option, for the error message
+ * @param {string} value - The value the option was given
+ * @param {readonly T[]} choices - The allowed values
+ * @returns {T} The value
+ * @throws {Error} If the value is not allowed
  */
-async function updateLangGraphConfig(
-  baseDir: string,
-  chalk: ChalkInstance,
-  args: IncludeAgents,
-): Promise<void> {
-  try {
-    const langGraphConfigPath = path.join(baseDir, "langgraph.json");
-    const config: Record<string, any> = JSON.parse(
-      await fs.promises.readFile(langGraphConfigPath, "utf8"),
-    );
-    if (args.includeReactAgent) {
-      config.graphs["agent"] = "./apps/agents/src/react-agent/graph.ts:graph";
-    }
-    if (args.includeMemoryAgent) {
-      config.graphs["memory_agent"] =
-        "./apps/agents/src/memory-agent/graph.ts:graph";
-    }
-    if (args.includeResearchAgent) {
-      config.graphs["research_agent"] =
-        "./apps/agents/src/research-agent/retrieval-graph/graph.ts:graph";
-      config.graphs["research_index_graph"] =
-        "./apps/agents/src/research-agent/index-graph/graph.ts:graph";
-    }
-    if (args.includeRetrievalAgent) {
-      config.graphs["retrieval_agent"] =
-        "./apps/agents/src/retrieval-agent/graph.ts:graph";
-    }
-    await fs.promises.writeFile(
-      langGraphConfigPath,
-      JSON.stringify(config, null, 2) + "\n",
+function parseChoice<T extends string>(
+  flag: string,
+  value: string,
+  choices: readonly T[],
+): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(
+      `Invalid ${flag} value "${value}". Valid values are: ${choices.join(", ")}`,
     );
-  } catch (_) {
-    console.log(`${chalk.red("Error: ")} Failed to update LangGraph config`);
   }
+  return value as T;
 }
 
 /**
- * Creates a message to display to the user after the project has been created.
+ * Parse the command-line options of the create command and return project configuration.
+ * If all required arguments are provided, this will bypass the interactive prompts.
+ * If only some arguments are provided, the user will be prompted for the remaining ones.
  *
- * @param {ChalkInstance} chalk - The chalk instance for logging
- * @param {PackageManager} packageManager - The package manager to use
- * @param {Framework} framework - The framework to use
- * @returns {string} The message to display
+ * @param {Record<string, any>} options - The parsed command-line options
+ * @param {AgentManifest[]} manifests - All available prebuilt agents
  */
-const createStartServersMessage = (
-  chalk: ChalkInstance,
-  packageManager: PackageManager,
-  framework: "nextjs" | "vite",
-): string => {
-  return `Then, start both the web, and LangGraph development servers with one command:
-  ${chalk.cyan(`${packageManager} run dev`)}
-
-This will start the web server at:
-  ${chalk.cyan(framework === "nextjs" ? "http://localhost:3000" : "http://localhost:5173")}
+function parseCommandLineArgs(
+  options: Record<string, any>,
+  manifests: AgentManifest[],
+): Partial<ProjectAnswers> {
+  const result: Partial<ProjectAnswers> = {};
 
-And the LangGraph server at:
-  ${chalk.cyan("http://localhost:2024")}`;
-};
+  // Only include options that were explicitly provided by the user
+  if ("projectName" in options) {
+    Object.assign(result, parseProjectName(options.projectName));
+  }
 
-const AGENT_DEPENDENCIES_MAP = {
-  "react-agent": {
-    "@langchain/community": "^0.3.35",
-    "@langchain/anthropic": "^0.3.15",
-  },
-  "memory-agent": {
-    "@langchain/anthropic": "^0.3.15",
-  },
-  "research-agent": {
-    "@langchain/anthropic": "^0.3.15",
-    "@elastic/elasticsearch": "^8.17.1",
-    "@langchain/community": "^0.3.35",
-    "@langchain/pinecone": "^0.2.0",
-    "@langchain/mongodb": "^0.1.0",
-    mongodb: "^6.14.2",
-    "@pinecone-database/pinecone": "^5.1.1",
-    "@langchain/cohere": "^0.3.2",
-    "@langchain/openai": "^0.4.4",
-  },
-  "retrieval-agent": {
-    "@langchain/anthropic": "^0.3.15",
-    "@elastic/elasticsearch": "^8.17.1",
-    "@langchain/community": "^0.3.35",
-    "@langchain/pinecone": "^0.2.0",
-    "@langchain/mongodb": "^0.1.0",
-    mongodb: "^6.14.2",
-    "@pinecone-database/pinecone": "^5.1.1",
-    "@langchain/cohere": "^0.3.2",
-    "@langchain/openai": "^0.4.4",
-  },
-};
+  if ("scope" in options) {
+    result.scope = options.scope;
+  }
 
-/**
- * Updates the 'package.json' file inside the agents workspace to include
- * all the necessary dependencies for the selected agents.
- *
- * @param baseDir - The base directory of the project
- * @param inputs - Object containing the following properties:
- * @param inputs.agentArgs - The prebuilt agents which are included in the project
- * @param inputs.packageManager - The package manager being used (npm, yarn, etc.)
- * @param inputs.chalk - Chalk instance for terminal styling
- */
-async function setAgentPackageJsonFields(
-  baseDir: string,
-  inputs: {
-    agentArgs: IncludeAgents;
-    packageManager: PackageManager;
-    chalk: ChalkInstance;
-  },
-): Promise<void> {
-  const { agentArgs, packageManager, chalk } = inputs;
-  try {
-    const agentsPkgJsonPath = path.join(
-      baseDir,
-      "apps",
-      "agents",
-      "package.json",
-    );
-    const pkgJson: Record<string, any> = JSON.parse(
-      await fs.promises.readFile(agentsPkgJsonPath, "utf8"),
-    );
-    const requiredPackages: Record<string, string> = {};
-    if (agentArgs.includeReactAgent) {
-      Object.assign(requiredPackages, AGENT_DEPENDENCIES_MAP["react-agent"]);
-    }
-    if (agentArgs.includeMemoryAgent) {
-      Object.assign(requiredPackages, AGENT_DEPENDENCIES_MAP["memory-agent"]);
-    }
-    if (agentArgs.includeResearchAgent) {
-      Object.assign(requiredPackages, AGENT_DEPENDENCIES_MAP["research-agent"]);
-    }
-    if (agentArgs.includeRetrievalAgent) {
-      Object.assign(
-        requiredPackages,
-        AGENT_DEPENDENCIES_MAP["retrieval-agent"],
-      );
-    }
-    pkgJson.dependencies = {
-      ...pkgJson.dependencies,
-      ...requiredPackages,
-    };
-
-    // Update the scripts to call the correct package manager
-    pkgJson.scripts["build:internal"] = pkgJson.scripts[
-      "build:internal"
-    ].replace("{PACKAGE_MANAGER}", packageManager);
-    await fs.promises.writeFile(
-      agentsPkgJsonPath,
-      JSON.stringify(pkgJson, null, 2),
-    );
-  } catch (_) {
-    console.log(
-      `${chalk.red("Error: ")} Failed to set agent package.json fields`,
+  if ("packageManager" in options) {
+    result.packageManager = parseChoice(
+      "--package-manager",
+      options.packageManager,
+      PACKAGE_MANAGERS,
     );
   }
-}
 
-const AGENT_ENV_VARS_MAP = {
-  "react-agent": ["TAVILY_API_KEY", "ANTHROPIC_API_KEY"],
-  "memory-agent": ["ANTHROPIC_API_KEY"],
-  "research-agent": [
-    "ANTHROPIC_API_KEY",
-    "ELASTICSEARCH_URL",
-    "ELASTICSEARCH_USER",
-    "ELASTICSEARCH_PASSWORD",
-    "ELASTICSEARCH_API_KEY",
-    "MONGODB_URI",
-    "PINECONE_API_KEY",
-    "PINECONE_ENVIRONMENT",
-    "PINECONE_INDEX_NAME",
-    "COHERE_API_KEY",
-    "OPENAI_API_KEY",
-  ],
-  "retrieval-agent": [
-    "ANTHROPIC_API_KEY",
-    "ELASTICSEARCH_URL",
-    "ELASTICSEARCH_USER",
-    "ELASTICSEARCH_PASSWORD",
-    "ELASTICSEARCH_API_KEY",
-    "MONGODB_URI",
-    "PINECONE_API_KEY",
-    "PINECONE_ENVIRONMENT",
-    "PINECONE_INDEX_NAME",
-    "COHERE_API_KEY",
-    "OPENAI_API_KEY",
-  ],
-};
+  if ("installDeps" in options) {
+    result.autoInstallDeps = options.installDeps.toLowerCase() === "true";
+  }
 
-/**
- * Creates a '.env.example' file containing all the required environment variables,
- * depending on the selected agents.
- *
- * @param {string} baseDir - The base directory of the project
- * @param {IncludeAgents} args The prebuilt agents which are included in the project
- * @param {ChalkInstance} chalk - The chalk instance for logging
- */
-async function setEnvExampleFile(
-  baseDir: string,
-  args: IncludeAgents,
-  chalk: ChalkInstance,
-): Promise<void> {
-  try {
-    const envExamplePath = path.join(baseDir, ".env.example");
-    const requiredEnvVarsSet = new Set<string>();
-    if (args.includeReactAgent) {
-      AGENT_ENV_VARS_MAP["react-agent"].forEach((v) =>
-        requiredEnvVarsSet.add(v),
-      );
-    }
-    if (args.includeMemoryAgent) {
-      AGENT_ENV_VARS_MAP["memory-agent"].forEach((v) =>
-        requiredEnvVarsSet.add(v),
-      );
-    }
-    if (args.includeResearchAgent) {
-      AGENT_ENV_VARS_MAP["research-agent"].forEach((v) =>
-        requiredEnvVarsSet.add(v),
-      );
-    }
-    if (args.includeRetrievalAgent) {
-      AGENT_ENV_VARS_MAP["retrieval-agent"].forEach((v) =>
-        requiredEnvVarsSet.add(v),
-      );
-    }
-    const requiredEnvVars = Array.from(requiredEnvVarsSet);
-    const baseEnvVars = `# LANGSMITH_API_KEY=""
-# LANGSMITH_TRACING_V2="true"
-# LANGSMITH_PROJECT="default"`;
-
-    const envExampleContent = `${baseEnvVars}\n\n${requiredEnvVars
-      .map((envVar) => `${envVar}=""`)
-      .join("\n")}`;
-    await fs.promises.writeFile(envExamplePath, envExampleContent);
-  } catch (_) {
-    console.log(`${chalk.red("Error: ")} Failed to set env example file`);
+  if ("offline" in options) {
+    result.offline = options.offline;
   }
-}
 
-/**
- * PNPM manages workspaces differently than NPM/Yarn, so if the user
- * selects PNPM as their package manager, we need to create a pnpm-workspace.yaml
- * file, and remove the workspaces field from the root package.json file.
- *
- * @param {string} baseDir - The base directory of the project
- * @param {ChalkInstance} chalk - The chalk instance for logging
- */
-async function createPnpmWorkspacesFile(
-  baseDir: string,
-  chalk: ChalkInstance,
-): Promise<void> {
-  try {
-    // first read package.json file
-    const packageJsonPath = path.join(baseDir, "package.json");
-    const packageJson: Record<string, any> = JSON.parse(
-      await fs.promises.readFile(packageJsonPath, "utf8"),
-    );
-    // Remove the workspaces field
-    delete packageJson.workspaces;
-    // Write the updated package.json file
-    await fs.promises.writeFile(
-      packageJsonPath,
-      JSON.stringify(packageJson, null, 2),
-    );
+  if ("pin" in options) {
+    result.pin = options.pin;
+  }
 
-    const pnpmWorkspacesPath = path.join(baseDir, "pnpm-workspace.yaml");
-    const pnpmWorkspacesContents = `packages:
-  - 'apps/*'
-`;
-    await fs.promises.writeFile(pnpmWorkspacesPath, pnpmWorkspacesContents);
-  } catch (_) {
-    console.log(
-      `${chalk.red("Error: ")} Failed to create pnpm workspaces file`,
+  if ("framework" in options) {
+    result.framework = parseChoice(
+      "--framework",
+      options.framework,
+      FRAMEWORKS,
     );
   }
-}
 
-/**
- * PNPM does not resolve the LangGraph Checkpoint package direct dependency
- * the same way NPM/Yarn do. For this reason, if the user selects PNPM as their
- * package manager, we need to explicitly install it in the 'agents' workspace.
- *
- * @param {string} baseDir - The base directory of the project
- * @param {ChalkInstance} chalk - The chalk instance for logging
- */
-async function addPnpmDirectDependencyWorkaround(
-  baseDir: string,
-  chalk: ChalkInstance,
-): Promise<void> {
-  try {
-    const agentsPkgJsonPath = path.join(
-      baseDir,
-      "apps",
-      "agents",
-      "package.json",
-    );
-    const pkgJson: Record<string, any> = JSON.parse(
-      await fs.promises.readFile(agentsPkgJsonPath, "utf8"),
+  if ("layout" in options) {
+    result.layout = parseChoice("--layout", options.layout, LAYOUTS);
+  }
+
+  if ("modelProvider" in options) {
+    result.modelProvider = parseChoice(
+      "--model-provider",
+      options.modelProvider,
+      MODEL_PROVIDERS,
     );
-    const additionalPackages = {
-      "@langchain/langgraph-checkpoint": "^0.0.16",
-    };
-    pkgJson.dependencies = {
-      ...pkgJson.dependencies,
-      ...additionalPackages,
-    };
-    await fs.promises.writeFile(
-      agentsPkgJsonPath,
-      JSON.stringify(pkgJson, null, 2),
+  }
+
+  if ("vectorStore" in options) {
+    result.vectorStore = parseChoice(
+      "--vector-store",
+      options.vectorStore,
+      VECTOR_STORES,
     );
-  } catch (_) {
-    console.log(
-      `${chalk.red("Error: ")} Failed to update agents package.json dependencies`,
+  }
+
+  if ("embeddings" in options) {
+    result.embeddings = parseChoice(
+      "--embeddings",
+      options.embeddings,
+      EMBEDDINGS_PROVIDERS,
     );
   }
-}
 
-/**
- * Parse command-line arguments and return project configuration.
- * If all required arguments are provided, this will bypass the interactive prompts.
- * If only some arguments are provided, the user will be prompted for the remaining ones.
- */
-async function parseCommandLineArgs(): Promise<Partial<ProjectAnswers>> {
-  const program = new Command();
+  if ("template" in options) {
+    result.webTemplate = path.resolve(options.template);
+  }
 
-  program
-    .name("create-agent-chat-app")
-    .description("Create an agent chat app with one command")
-    .version(VERSION)
-    .option("-Y, --yes", "Skip all prompts and use default values")
-    .option(
-      "--project-name <name>",
-      "Name of the project (default: agent-chat-app)",
-    )
-    .option(
-      "--package-manager <manager>",
-      "Package manager to use (npm, pnpm, yarn) (default: yarn)",
-    )
-    .option(
-      "--install-deps <boolean>",
-      "Automatically install dependencies (default: true)",
-    )
-    .option(
-      "--framework <framework>",
-      "Framework to use (nextjs, vite) (default: nextjs)",
-    )
-    .option(
-      "--include-agent <agent...>",
-      "Pre-built agents to include (react, memory, research, retrieval) (default: all)",
-    )
-    .allowUnknownOption();
+  if ("agentTemplate" in options) {
+    const templates = Array.isArray(options.agentTemplate)
+      ? options.agentTemplate
+      : [options.agentTemplate];
+    result.agentTemplates = templates.map((template: string) =>
+      path.resolve(template),
+    );
+  }
 
-  program.parse();
-  const options = program.opts();
+  if ("plugin" in options) {
+    const plugins = Array.isArray(options.plugin)
+      ? options.plugin
+      : [options.plugin];
+    result.plugins = plugins.map((plugin: string) => path.resolve(plugin));
+  }
 
-  const result: Partial<ProjectAnswers> = {};
+  if ("appTitle" in options) {
+    result.appTitle = options.appTitle;
+  }
 
-  // Only include options that were explicitly provided by the user
-  if ("projectName" in options) {
-    result.projectName = options.projectName;
+  if ("langgraphPort" in options) {
+    result.langGraphPort = Number(options.langgraphPort);
   }
 
-  if ("packageManager" in options) {
-    if (["npm", "pnpm", "yarn"].includes(options.packageManager)) {
-      result.packageManager = options.packageManager as PackageManager;
-    }
+  if ("docker" in options) {
+    result.docker = options.docker;
   }
 
-  if ("installDeps" in options) {
-    result.autoInstallDeps = options.installDeps.toLowerCase() === "true";
+  if ("git" in options) {
+    result.git = options.git;
   }
 
-  if ("framework" in options) {
-    if (["nextjs", "vite"].includes(options.framework)) {
-      result.framework = options.framework as Framework;
-    }
+  if ("commitMessage" in options) {
+    result.commitMessage = options.commitMessage;
   }
 
   if ("includeAgent" in options) {
@@ -569,27 +309,162 @@ async function parseCommandLineArgs(): Promise<Partial<ProjectAnswers>> {
       ? options.includeAgent
       : [options.includeAgent];
 
-    result.includeReactAgent = selectedAgents.includes("react");
-    result.includeMemoryAgent = selectedAgents.includes("memory");
-    result.includeResearchAgent = selectedAgents.includes("research");
-    result.includeRetrievalAgent = selectedAgents.includes("retrieval");
+    result.agents = resolveAgentManifests(manifests, selectedAgents).map(
+      (m) => m.id,
+    );
   }
 
-  // If -Y or --yes flag is provided, use all defaults
-  if (options.yes) {
-    return {
-      projectName: result.projectName ?? "agent-chat-app",
-      packageManager: result.packageManager ?? "yarn",
-      autoInstallDeps: result.autoInstallDeps ?? true,
-      framework: result.framework ?? "nextjs",
-      includeReactAgent: result.includeReactAgent ?? true,
-      includeMemoryAgent: result.includeMemoryAgent ?? true,
-      includeResearchAgent: result.includeResearchAgent ?? true,
-      includeRetrievalAgent: result.includeRetrievalAgent ?? true,
-    } as ProjectAnswers;
+  return result;
+}
+
+/**
+ * Fills in the default value for every option which was not provided.
+ * Used when prompts are skipped with `-Y`, or when scaffolding from a config file.
+ * The package manager defaults to the one the CLI was invoked with, if it can be detected.
+ *
+ * @param {Partial<ProjectAnswers>} partialAnswers - The provided options
+ * @param {AgentManifest[]} manifests - All available prebuilt agents
+ */
+function applyDefaultAnswers(
+  partialAnswers: Partial<ProjectAnswers>,
+  manifests: AgentManifest[],
+): ProjectAnswers {
+  return {
+    projectName: partialAnswers.projectName ?? "agent-chat-app",
+    directory: partialAnswers.directory,
+    scope: partialAnswers.scope,
+    packageManager:
+      partialAnswers.packageManager ??
+      detectPackageManager(process.cwd()) ??
+      "yarn",
+    autoInstallDeps: partialAnswers.autoInstallDeps ?? true,
+    offline: partialAnswers.offline ?? false,
+    pin: partialAnswers.pin ?? false,
+    framework: partialAnswers.framework ?? "nextjs",
+    layout: partialAnswers.layout ?? "full",
+    // Web-only projects have no agents workspace
+    agents:
+      partialAnswers.layout === "web-only"
+        ? []
+        : (partialAnswers.agents ?? manifests.map((m) => m.id)),
+    modelProvider: partialAnswers.modelProvider ?? "anthropic",
+    vectorStore: partialAnswers.vectorStore,
+    embeddings: partialAnswers.embeddings,
+    webTemplate: partialAnswers.webTemplate,
+    agentTemplates: partialAnswers.agentTemplates,
+    plugins: partialAnswers.plugins,
+    appTitle: partialAnswers.appTitle,
+    langGraphPort: partialAnswers.langGraphPort,
+    docker: partialAnswers.docker ?? false,
+    git: partialAnswers.git ?? false,
+    commitMessage: partialAnswers.commitMessage,
+    envDefaults: partialAnswers.envDefaults ?? {},
+    env: partialAnswers.env,
+  };
+}
+
+/**
+ * Asks the user for the secrets the selected agents need, grouped by agent,
+ * so they can be written to `.env`. Variables which already have a value,
+ * either imported with `--env-from` or set in the shell environment, are skipped.
+ *
+ * @param {AgentManifest[]} agents - The selected prebuilt agents
+ * @param {Record<string, string> | undefined} imported - The values imported with `--env-from`
+ * @returns {Promise<Record<string, string> | undefined>} The values to write to .env, or undefined if the user chose not to enter any
+ */
+async function promptEnvValues(
+  agents: AgentManifest[],
+  imported: Record<string, string> | undefined,
+): Promise<Record<string, string> | undefined> {
+  const values: Record<string, string> = { ...imported };
+  const isSet = (envVar: string) => !!values[envVar] || !!process.env[envVar];
+  const requiredEnvVars = Array.from(
+    new Set(agents.flatMap((agent) => getAgentEnv(agent).required)),
+  );
+  if (requiredEnvVars.every(isSet)) {
+    return imported;
   }
 
-  return result;
+  const confirmResponse = await confirm({
+    message:
+      "Would you like to enter the API keys for the selected agents now? They will be saved to .env",
+    initialValue: true,
+  });
+  if (isCancel(confirmResponse)) {
+    cancel("Operation cancelled");
+    process.exit(0);
+  }
+  if (!confirmResponse) {
+    return imported;
+  }
+
+  const fromShell = requiredEnvVars.filter(
+    (envVar) => !values[envVar] && process.env[envVar],
+  );
+  if (fromShell.length > 0) {
+    log.info(`Already set in your environment: ${fromShell.join(", ")}`);
+  }
+
+  // Variables shared by several agents are only asked for once
+  const asked = new Set<string>();
+  for (const agent of agents) {
+    const envVars = getAgentEnv(agent).required.filter(
+      (envVar) => !asked.has(envVar) && !isSet(envVar),
+    );
+    if (envVars.length === 0) continue;
+    log.step(agent.label);
+    for (const envVar of envVars) {
+      asked.add(envVar);
+      const valueResponse = await password({
+        message: `${envVar} (leave empty to skip)`,
+      });
+      if (isCancel(valueResponse)) {
+        cancel("Operation cancelled");
+        process.exit(0);
+      }
+      if (valueResponse) {
+        values[envVar] = valueResponse as string;
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Asks the user which provider of a provider group to generate the selected
+ * agents for. Nothing is asked if none of the agents support the group.
+ *
+ * @param {AgentManifest[]} agents - The selected prebuilt agents
+ * @param {string} group - The name of the provider group, e.g. `vectorStore`
+ * @param {string} message - The question to ask
+ * @returns {Promise<string | undefined>} The chosen provider, or undefined if the agents do not support the group
+ */
+async function promptProvider(
+  agents: AgentManifest[],
+  group: string,
+  message: string,
+): Promise<string | undefined> {
+  const groups = agents.flatMap((agent) => agent.providers[group] ?? []);
+  if (groups.length === 0) {
+    return undefined;
+  }
+  const providers = Array.from(
+    new Set(groups.flatMap((g) => Object.keys(g.options))),
+  );
+  const providerResponse = await select({
+    message,
+    initialValue: groups[0].default,
+    options: providers.map((provider) => ({
+      value: provider,
+      label: PROVIDER_LABELS[provider] ?? provider,
+    })),
+  });
+
+  if (isCancel(providerResponse)) {
+    cancel("Operation cancelled");
+    process.exit(0);
+  }
+  return providerResponse as string;
 }
 
 /**
@@ -597,24 +472,38 @@ async function parseCommandLineArgs(): Promise<Partial<ProjectAnswers>> {
  * If a value is already provided in partialAnswers, the user won't be prompted for it.
  */
 async function promptUser(
+  manifests: AgentManifest[],
   partialAnswers: Partial<ProjectAnswers> = {},
+  customAgents: AgentManifest[] = [],
 ): Promise<ProjectAnswers> {
   intro(chalk.green(" create-agent-chat-app "));
 
-  // Project name prompt
+  // Project name prompt. A path creates the project in that directory,
+  // named after its basename.
   let projectName = partialAnswers.projectName;
+  let directory = partialAnswers.directory;
   if (!projectName) {
     const projectNameResponse = await text({
       message: "What is the name of your project?",
       placeholder: "agent-chat-app",
       defaultValue: "agent-chat-app",
+      validate: (value) => {
+        // An empty value accepts the default
+        if (!value) return;
+        const problems = validatePackageName(
+          parseProjectName(value).projectName,
+        );
+        return problems.length > 0 ? problems.join(". ") : undefined;
+      },
     });
 
     if (isCancel(projectNameResponse)) {
       cancel("Operation cancelled");
       process.exit(0);
     }
-    projectName = projectNameResponse as string;
+    const parsed = parseProjectName(projectNameResponse as string);
+    projectName = parsed.projectName;
+    directory ??= parsed.directory;
   }
 
   // Package manager prompt
@@ -622,10 +511,12 @@ async function promptUser(
   if (!packageManager) {
     const packageManagerResponse = await select({
       message: "Which package manager would you like to use?",
+      initialValue: detectPackageManager(process.cwd()),
       options: [
         { value: "npm", label: "npm" },
         { value: "pnpm", label: "pnpm" },
         { value: "yarn", label: "yarn" },
+        { value: "bun", label: "bun" },
       ],
     });
 
@@ -651,8 +542,11 @@ async function promptUser(
     autoInstallDeps = autoInstallDepsResponse as boolean;
   }
 
-  // Framework prompt
-  let framework = partialAnswers.framework;
+  // Framework prompt, unless the project has no web app
+  const layout = partialAnswers.layout ?? "full";
+  let framework =
+    partialAnswers.framework ??
+    (layout === "agents-only" ? ("nextjs" as const) : undefined);
   if (!framework) {
     const frameworkResponse = await select({
       message: "Which framework would you like to use?",
@@ -669,30 +563,14 @@ async function promptUser(
     framework = frameworkResponse as Framework;
   }
 
-  // Check if all agent selections are already provided
-  const allAgentSelectionsProvided =
-    partialAnswers.includeReactAgent !== undefined &&
-    partialAnswers.includeMemoryAgent !== undefined &&
-    partialAnswers.includeResearchAgent !== undefined &&
-    partialAnswers.includeRetrievalAgent !== undefined;
-
-  // Agent selection prompt if not all provided
-  let includeReactAgent = partialAnswers.includeReactAgent ?? false;
-  let includeMemoryAgent = partialAnswers.includeMemoryAgent ?? false;
-  let includeResearchAgent = partialAnswers.includeResearchAgent ?? false;
-  let includeRetrievalAgent = partialAnswers.includeRetrievalAgent ?? false;
-
-  if (!allAgentSelectionsProvided) {
+  // Agent selection prompt if not provided, unless the project has no agents
+  let agents = layout === "web-only" ? [] : partialAnswers.agents;
+  if (!agents) {
     const selectedAgentsResponse = await multiselect({
       message:
         'Which pre-built agents would you like to include? (Press "space" to select/unselect)',
-      options: [
-        { value: "react", label: "ReAct Agent" },
-        { value: "memory", label: "Memory Agent" },
-        { value: "research", label: "Research Agent" },
-        { value: "retrieval", label: "Retrieval Agent" },
-      ],
-      initialValues: ["react", "memory", "research", "retrieval"],
+      options: manifests.map((m) => ({ value: m.id, label: m.label })),
+      initialValues: manifests.map((m) => m.id),
       required: false,
     });
 
@@ -701,208 +579,418 @@ async function promptUser(
       process.exit(0);
     }
 
-    const selectedAgents = selectedAgentsResponse as string[];
+    agents = selectedAgentsResponse as string[];
+  }
 
-    // Determine which agents are included
-    includeReactAgent = selectedAgents.includes("react");
-    includeMemoryAgent = selectedAgents.includes("memory");
-    includeResearchAgent = selectedAgents.includes("research");
-    includeRetrievalAgent = selectedAgents.includes("retrieval");
+  // Provider prompts, for the LLM and the agents which use a vector store.
+  // Custom agents are always included.
+  const selectedAgents = [
+    ...resolveAgentManifests(manifests, agents),
+    ...(layout === "web-only" ? [] : customAgents),
+  ];
+  const modelProvider =
+    partialAnswers.modelProvider ??
+    ((await promptProvider(
+      selectedAgents,
+      "modelProvider",
+      "Which LLM provider would you like the agents to use?",
+    )) as ModelProvider | undefined);
+  const vectorStore =
+    partialAnswers.vectorStore ??
+    ((await promptProvider(
+      selectedAgents,
+      "vectorStore",
+      "Which vector store would you like the retrieval agents to use?",
+    )) as VectorStore | undefined);
+  const embeddings =
+    partialAnswers.embeddings ??
+    ((await promptProvider(
+      selectedAgents,
+      "embeddings",
+      "Which embeddings provider would you like the retrieval agents to use?",
+    )) as EmbeddingsProvider | undefined);
+
+  // Secrets prompt, for the environment variables the selected agents need
+  const env = await promptEnvValues(
+    selectedAgents.map((agent) =>
+      selectAgentProviders(
+        agent,
+        getProviderSelection({ modelProvider, vectorStore, embeddings }),
+      ),
+    ),
+    partialAnswers.env,
+  );
+
+  // Git repository prompt
+  let git = partialAnswers.git;
+  if (git === undefined) {
+    const gitResponse = await confirm({
+      message:
+        "Would you like to initialize a git repository with an initial commit?",
+      initialValue: true,
+    });
+
+    if (isCancel(gitResponse)) {
+      cancel("Operation cancelled");
+      process.exit(0);
+    }
+    git = gitResponse as boolean;
   }
 
   // Combine all answers
   return {
     packageManager,
     autoInstallDeps,
+    offline: partialAnswers.offline,
+    pin: partialAnswers.pin,
     projectName,
+    directory,
+    scope: partialAnswers.scope,
     framework,
-    includeReactAgent,
-    includeMemoryAgent,
-    includeResearchAgent,
-    includeRetrievalAgent,
+    layout,
+    agents,
+    modelProvider,
+    vectorStore,
+    embeddings,
+    webTemplate: partialAnswers.webTemplate,
+    agentTemplates: partialAnswers.agentTemplates,
+    plugins: partialAnswers.plugins,
+    appTitle: partialAnswers.appTitle,
+    langGraphPort: partialAnswers.langGraphPort,
+    docker: partialAnswers.docker,
+    git,
+    commitMessage: partialAnswers.commitMessage,
+    envDefaults: partialAnswers.envDefaults,
+    env,
   };
 }
 
-async function init(): Promise<void> {
-  // Parse command-line arguments first
-  const cliOptions = await parseCommandLineArgs();
-
-  const allRequiredOptionsProvided =
-    cliOptions.autoInstallDeps !== undefined &&
-    cliOptions.projectName !== undefined &&
-    cliOptions.packageManager !== undefined &&
-    cliOptions.framework !== undefined &&
-    cliOptions.includeReactAgent !== undefined &&
-    cliOptions.includeMemoryAgent !== undefined &&
-    cliOptions.includeResearchAgent !== undefined &&
-    cliOptions.includeRetrievalAgent !== undefined;
-
-  // If all options are provided via CLI, use them directly
-  // Otherwise, prompt for the missing options
-  const answers = allRequiredOptionsProvided
-    ? (cliOptions as ProjectAnswers)
-    : await promptUser(cliOptions);
-
-  const { projectName, packageManager, autoInstallDeps, framework } = answers;
+/**
+ * Checks that the chosen package manager is installed, and reports its version.
+ * If it is missing, the user is offered to fall back to a package manager which
+ * is installed, or to skip installing dependencies. When prompts are disabled,
+ * installing dependencies is skipped.
+ *
+ * @param {ProjectAnswers} answers - The resolved project configuration
+ * @param {boolean} interactive - Whether the user can be prompted
+ * @param {Logger | undefined} logger - Receives the version, and warnings. Nothing is logged if omitted
+ * @returns {Promise<ProjectAnswers>} The configuration with the package manager to use
+ */
+async function resolvePackageManager(
+  answers: ProjectAnswers,
+  interactive: boolean,
+  logger?: Logger,
+): Promise<ProjectAnswers> {
+  const { packageManager } = answers;
+  const version = getPackageManagerVersion(packageManager);
+  if (version) {
+    logger?.info(
+      `Package manager: ${chalk.green(`${packageManager} ${version}`)}`,
+    );
+    return answers;
+  }
 
-  // Create project directory
-  const targetDir: string = path.join(process.cwd(), projectName);
+  logger?.info(
+    `${chalk.yellow("Warning:")} ${packageManager} is not installed, or could not be found on your PATH.`,
+  );
+  if (!answers.autoInstallDeps) {
+    return answers;
+  }
+  if (!interactive) {
+    logger?.info(
+      `Dependencies will not be installed. Install ${packageManager}, then run ${chalk.cyan(`${packageManager} install`)} in the project.`,
+    );
+    return { ...answers, autoInstallDeps: false };
+  }
 
-  if (await fs.exists(targetDir)) {
-    console.error(chalk.red(`Error: Directory ${projectName} already exists.`));
-    process.exit(1);
+  const installed = getInstalledPackageManagers();
+  const fallbackResponse = await select({
+    message: `${packageManager} is not installed. What would you like to do?`,
+    options: [
+      ...Object.entries(installed).map(([name, installedVersion]) => ({
+        value: name,
+        label: `Use ${name} instead`,
+        hint: installedVersion,
+      })),
+      {
+        value: "skip",
+        label: `Keep ${packageManager}, and skip installing dependencies`,
+      },
+    ],
+  });
+
+  if (isCancel(fallbackResponse)) {
+    cancel("Operation cancelled");
+    process.exit(0);
+  }
+  if (fallbackResponse === "skip") {
+    return { ...answers, autoInstallDeps: false };
   }
+  const fallback = fallbackResponse as PackageManager;
+  logger?.info(
+    `Package manager: ${chalk.green(`${fallback} ${installed[fallback]}`)}`,
+  );
+  return { ...answers, packageManager: fallback };
+}
 
-  // Log the collected values
-  console.log(`Project will be created at: ${chalk.green(targetDir)}\n`);
-  console.log(`Framework: ${chalk.green(framework)}`);
+/**
+ * Asks the user how to resolve every generated file which collides with an
+ * existing file in the target directory.
+ *
+ * @param {string[]} conflicts - The conflicting file paths, relative to the project root
+ * @returns {Promise<Record<string, ConflictStrategy>>} The chosen strategy for every file
+ */
+async function promptConflictStrategies(
+  conflicts: string[],
+): Promise<Record<string, ConflictStrategy>> {
+  const resolutions: Record<string, ConflictStrategy> = {};
+  for (const file of conflicts) {
+    const strategyResponse = await select({
+      message: `${file} already exists. What would you like to do?`,
+      options: [
+        { value: "skip", label: "Skip", hint: "keep the existing file" },
+        { value: "overwrite", label: "Overwrite" },
+        {
+          value: "sidecar",
+          label: "Write a .new file",
+          hint: `write the generated file to ${file}.new`,
+        },
+      ],
+    });
 
-  const includesAgentSelectionsMap: IncludeAgents = {
-    includeReactAgent: answers.includeReactAgent,
-    includeMemoryAgent: answers.includeMemoryAgent,
-    includeResearchAgent: answers.includeResearchAgent,
-    includeRetrievalAgent: answers.includeRetrievalAgent,
-  };
+    if (isCancel(strategyResponse)) {
+      cancel("Operation cancelled");
+      process.exit(0);
+    }
+    resolutions[file] = strategyResponse as ConflictStrategy;
+  }
+  return resolutions;
+}
 
-  if (Object.values(includesAgentSelectionsMap).every(Boolean)) {
-    console.log(`Including: ${chalk.green("All pre-built agents")}`);
-  } else {
-    const selectedAgents = [];
-    if (includesAgentSelectionsMap.includeReactAgent)
-      selectedAgents.push("ReAct");
-    if (includesAgentSelectionsMap.includeMemoryAgent)
-      selectedAgents.push("Memory");
-    if (includesAgentSelectionsMap.includeResearchAgent)
-      selectedAgents.push("Research");
-    if (includesAgentSelectionsMap.includeRetrievalAgent)
-      selectedAgents.push("Retrieval");
-
-    if (selectedAgents.length > 0) {
+/**
+ * Prints what happened to the generated files which collided with existing files.
+ *
+ * @param {MergeSummary} summary - The result of moving the project into an existing directory
+ */
+function printMergeSummary(summary: MergeSummary): void {
+  console.log(
+    `\n${chalk.green("✓")} Created ${summary.created.length} new files`,
+  );
+  const lists: [string, string[]][] = [
+    ["Merged", summary.merged],
+    ["Kept existing", summary.skipped],
+    ["Overwrote", summary.overwritten],
+    ["Wrote", summary.sidecars],
+  ];
+  lists.forEach(([label, files]) => {
+    if (files.length > 0) {
       console.log(
-        `Including agents: ${chalk.green(selectedAgents.join(", "))}`,
+        `${chalk.green("✓")} ${label}: ${chalk.cyan(files.join(", "))}`,
       );
-    } else {
-      console.log(`No additional agents selected.`);
     }
-  }
-
-  console.log(chalk.yellow("Creating project files..."));
+  });
+  summary.warnings.forEach((warning) => {
+    console.log(`${chalk.yellow("!")} ${warning}`);
+  });
+}
 
-  // Create the project directory
-  await fs.mkdir(targetDir, { recursive: true });
+/**
+ * Logs the progress of `createProject` to the console.
+ */
+const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  warn: (message) => console.log(chalk.yellow(message)),
+  error: (message) => console.error(chalk.red(message)),
+};
 
-  // Copy the monorepo template to the target directory
-  const monorepoTemplateDir: string = path.join(
-    __dirname,
-    "templates",
-    "monorepo",
-  );
-  await fs.copy(monorepoTemplateDir, targetDir);
-
-  await Promise.all([
-    updateLangGraphConfig(targetDir, chalk, includesAgentSelectionsMap),
-    setAgentPackageJsonFields(targetDir, {
-      agentArgs: includesAgentSelectionsMap,
-      packageManager,
-      chalk,
-    }),
-    setEnvExampleFile(targetDir, includesAgentSelectionsMap, chalk),
-  ]);
-
-  // Create web directory inside apps and copy the framework template
-  const appsDir: string = path.join(targetDir, "apps");
-  const webDir: string = path.join(appsDir, "web");
-  await fs.mkdir(webDir, { recursive: true });
-
-  // Copy the framework template to the web directory
-  const frameworkTemplateDir: string = path.join(
-    __dirname,
-    "templates",
-    framework,
-  );
-  await fs.copy(frameworkTemplateDir, webDir);
-  await writeGitignore(targetDir, framework, chalk);
+async function init(
+  manifests: AgentManifest[],
+  cliOptions: Partial<ProjectAnswers>,
+  runOptions: {
+    dryRun?: boolean;
+    keepOnFailure?: boolean;
+    onConflict?: ConflictStrategy;
+    interactive?: boolean;
+    json?: boolean;
+    /**
+     * The manifests of the custom agent templates, which are always included.
+     */
+    customAgents?: AgentManifest[];
+    /**
+     * The plugins of `plugins`, which were already loaded.
+     */
+    plugins?: Plugin[];
+  } = {},
+): Promise<void> {
+  // The --json document is the only output, so nothing else may be logged
+  const logger = runOptions.json ? undefined : consoleLogger;
+  const customAgents = runOptions.customAgents ?? [];
 
-  // Get the path to the agents src directory which already exists in the monorepo template
-  const agentsDir: string = path.join(appsDir, "agents", "src");
+  const allRequiredOptionsProvided =
+    cliOptions.autoInstallDeps !== undefined &&
+    cliOptions.projectName !== undefined &&
+    cliOptions.packageManager !== undefined &&
+    cliOptions.framework !== undefined &&
+    cliOptions.agents !== undefined;
 
-  // Copy agent templates if selected - run in parallel for better performance
-  const copyOperations = [];
+  // If all options are provided via CLI, use them directly
+  // Otherwise, prompt for the missing options
+  const answers = await resolvePackageManager(
+    allRequiredOptionsProvided
+      ? (cliOptions as ProjectAnswers)
+      : await promptUser(manifests, cliOptions, customAgents),
+    runOptions.interactive ?? false,
+    logger,
+  );
 
-  if (answers.includeReactAgent) {
-    copyOperations.push(copyAgentTemplate("react-agent", agentsDir));
+  const { packageManager, framework, layout } = answers;
+
+  // Custom agents are always included, and replace the prebuilt agents with the same ID
+  const customAgentIds = customAgents.map((agent) => agent.id);
+  const allManifests = [
+    ...manifests.filter((manifest) => !customAgentIds.includes(manifest.id)),
+    ...customAgents,
+  ];
+  if (layout !== "web-only") {
+    answers.agents = Array.from(
+      new Set([...answers.agents, ...customAgentIds]),
+    );
   }
 
-  if (answers.includeMemoryAgent) {
-    copyOperations.push(copyAgentTemplate("memory-agent", agentsDir));
+  if (answers.env) {
+    // Only the variables the selected agents use are written to .env
+    const agents = resolveAgentManifests(allManifests, answers.agents).map(
+      (agent) => selectAgentProviders(agent, getProviderSelection(answers)),
+    );
+    const envVars = getAgentEnvVars(agents);
+    const env = Object.fromEntries(
+      Object.entries(answers.env).filter(
+        ([envVar, value]) => envVars.includes(envVar) && value !== "",
+      ),
+    );
+    answers.env = env;
+
+    const unset = Array.from(
+      new Set(agents.flatMap((agent) => getAgentEnv(agent).required)),
+    ).filter((envVar) => !env[envVar] && !process.env[envVar]);
+    if (unset.length > 0) {
+      logger?.warn(
+        `Warning: ${unset.join(", ")} ${unset.length === 1 ? "is" : "are"} not set. Fill them in .env before starting the project.`,
+      );
+    }
   }
 
-  if (answers.includeResearchAgent) {
-    copyOperations.push(copyAgentTemplate("research-agent", agentsDir));
-  }
+  let result: CreateProjectResult;
+  try {
+    result = await createProject(
+      {
+        ...answers,
+        dryRun: runOptions.dryRun,
+        keepOnFailure: runOptions.keepOnFailure,
+        onConflict: runOptions.onConflict,
+      },
+      {
+        logger,
+        loadedPlugins: runOptions.plugins,
+        installOutput: runOptions.json ? "ignore" : "inherit",
+        resolveConflicts: runOptions.interactive
+          ? promptConflictStrategies
+          : undefined,
+      },
+    );
+  } catch (e) {
+    let exitCode: number = EXIT_CODES.error;
+    if (e instanceof DirectoryExistsError) {
+      exitCode = EXIT_CODES.directoryExists;
+    } else if (e instanceof CreateProjectError) {
+      exitCode = EXIT_CODES.templateError;
+    }
 
-  if (answers.includeRetrievalAgent) {
-    copyOperations.push(copyAgentTemplate("retrieval-agent", agentsDir));
+    if (runOptions.json) {
+      printJsonReport(
+        createJsonReport({
+          exitCode,
+          answers,
+          manifests: allManifests,
+          errors:
+            e instanceof CreateProjectError
+              ? e.errors.map((error) => error.message)
+              : [(e as Error).message],
+        }),
+      );
+    } else if (!(e instanceof CreateProjectError)) {
+      // The errors of the failed steps have already been logged
+      console.error(chalk.red(`\nError: ${(e as Error).message}`));
+      if (e instanceof DirectoryExistsError && e.conflicts.length > 0) {
+        console.error(
+          `\nPass --on-conflict <${CONFLICT_STRATEGIES.join("|")}> to choose how to handle them.`,
+        );
+      }
+    }
+    process.exit(exitCode);
   }
 
-  // Execute all copy operations concurrently
-  await Promise.all(copyOperations);
-
-  // Update root package.json with project name
-  const rootPkgJsonPath: string = path.join(targetDir, "package.json");
-  if (await fs.exists(rootPkgJsonPath)) {
-    const rootPkgJson: Record<string, any> = JSON.parse(
-      await fs.readFile(rootPkgJsonPath, "utf8"),
+  const { targetDir, install } = result;
+
+  if (runOptions.json) {
+    const exitCode =
+      install.status === "failed"
+        ? EXIT_CODES.installFailed
+        : EXIT_CODES.success;
+    printJsonReport(
+      createJsonReport({
+        exitCode,
+        answers,
+        manifests: allManifests,
+        result,
+        errors: install.error ? [install.error] : [],
+      }),
     );
-    rootPkgJson.name = projectName;
-    await fs.writeFile(rootPkgJsonPath, JSON.stringify(rootPkgJson, null, 2));
+    process.exit(exitCode);
   }
 
-  if (packageManager === "yarn") {
-    await createYarnRcYml(targetDir, chalk);
+  if (result.dryRun) {
+    await printDryRunPlan(targetDir, result.dryRunContents!, {
+      installCommand: answers.autoInstallDeps ? install.command : undefined,
+    });
+    return;
   }
-  if (packageManager === "pnpm") {
-    await Promise.all([
-      createPnpmWorkspacesFile(targetDir, chalk),
-      addPnpmDirectDependencyWorkaround(targetDir, chalk),
-    ]);
+
+  if (result.merge) {
+    printMergeSummary(result.merge);
   }
 
-  await setPackageJsonFields(packageManager, targetDir, chalk);
+  const dockerMessage = answers.docker
+    ? `\n\n${createDockerMessage(chalk, packageManager)}`
+    : "";
 
-  // Install dependencies if autoInstallDeps is true
-  if (autoInstallDeps) {
-    console.log(chalk.yellow("\nInstalling dependencies..."));
-    try {
-      // Navigate to the project directory and run the install command
-      process.chdir(targetDir);
-      execSync(`${packageManager} install`, { stdio: "inherit" });
-      console.log(chalk.green("\nDependencies installed successfully!"));
+  // The path to `cd` into, which is empty when scaffolding into the current directory
+  const cdPath = path.relative(process.cwd(), targetDir);
+  const cdCommand = (indent: string): string =>
+    cdPath ? `\n${indent}${chalk.cyan(`cd ${cdPath}`)}` : "";
 
-      console.log(chalk.green("\nSuccess!"));
-      console.log(`
+  if (install.status === "succeeded") {
+    console.log(chalk.green("\nSuccess!"));
+    console.log(`
   Your agent chat app has been created at ${chalk.green(targetDir)}
   
-  To get started:
-    ${chalk.cyan(`cd ${projectName}`)}
+  To get started:${cdCommand("    ")}
   
-  ${createStartServersMessage(chalk, packageManager, framework)}
+  ${createStartServersMessage(chalk, result.devServers, framework, layout)}${dockerMessage}
       `);
-    } catch (error) {
-      console.error(chalk.red("\nFailed to install dependencies:"), error);
-      console.log(`
+    return;
+  }
+
+  if (install.status === "failed") {
+    console.log(`
   Your agent chat app has been created, but dependencies could not be installed automatically.
   
-  To get started:
-    ${chalk.cyan(`cd ${projectName}`)}
-    ${chalk.cyan(`${packageManager} install`)}
+  To get started:${cdCommand("    ")}
+    ${chalk.cyan(install.command)}
 
-  ${createStartServersMessage(chalk, packageManager, framework)}
+  ${createStartServersMessage(chalk, result.devServers, framework, layout)}${dockerMessage}
       `);
-    }
-
-    // Return early to not output the logs for when no auto install is requested.
-    return;
+    process.exit(EXIT_CODES.installFailed);
   }
 
   // No auto install
@@ -910,34 +998,331 @@ async function init(): Promise<void> {
   console.log(`
 Your agent chat app has been created at ${chalk.green(targetDir)}
 
-To get started:
-  ${chalk.cyan(`cd ${projectName}`)}
-  ${chalk.cyan(`${packageManager} install`)}
+To get started:${cdCommand("  ")}
+  ${chalk.cyan(install.command)}
 
-${createStartServersMessage(chalk, packageManager, framework)}
+${createStartServersMessage(chalk, result.devServers, framework, layout)}${dockerMessage}
   `);
 }
 
-// Helper function to copy agent templates
-async function copyAgentTemplate(
-  agentName: string,
-  agentsDir: string,
+/**
+ * Runs the root command, which creates a new project.
+ *
+ * @param {string | undefined} directory - The directory argument, if given
+ * @param {Record<string, any>} options - The parsed command-line options
+ * @param {AgentManifest[]} manifests - All available prebuilt agents
+ */
+async function runCreateCommand(
+  directory: string | undefined,
+  options: Record<string, any>,
+  manifests: AgentManifest[],
 ): Promise<void> {
-  const agentTemplateDir: string = path.join(__dirname, "templates", agentName);
+  if (options.onConflict !== undefined) {
+    parseChoice("--on-conflict", options.onConflict, CONFLICT_STRATEGIES);
+  }
+
+  if (
+    options.langgraphPort !== undefined &&
+    !/^\d+$/.test(options.langgraphPort)
+  ) {
+    throw new Error(
+      `Invalid --langgraph-port value "${options.langgraphPort}". It must be a port number, e.g. ${DEFAULT_LANGGRAPH_PORT}`,
+    );
+  }
+
+  // Values from the config file are overridden by any command-line flags
+  const { envFrom, dryRun, keepOnFailure, onConflict, ...configAnswers } =
+    options.config ? await loadConfigFile(options.config, manifests) : {};
+  const cliAnswers = {
+    ...configAnswers,
+    ...parseCommandLineArgs(options, manifests),
+  };
+  const envFile: string | undefined = options.envFrom ?? envFrom;
+  if (envFile) {
+    try {
+      cliAnswers.env = parseEnvFile(
+        await fs.promises.readFile(envFile, "utf8"),
+      );
+    } catch (e) {
+      throw new Error(`Failed to read ${envFile}: ${(e as Error).message}`);
+    }
+  }
+  if (directory !== undefined) {
+    cliAnswers.directory = directory;
+    // Name the project after the directory, unless a name was given
+    cliAnswers.projectName ??= path.basename(path.resolve(directory));
+  }
+  if (cliAnswers.projectName !== undefined) {
+    const problems = validatePackageName(cliAnswers.projectName);
+    if (problems.length > 0) {
+      const hint =
+        directory !== undefined && !options.projectName
+          ? "\nThe name is taken from the directory. Pass --project-name to choose another one."
+          : "";
+      throw new Error(
+        formatPackageNameError(
+          "project name",
+          cliAnswers.projectName,
+          problems,
+        ) + hint,
+      );
+    }
+  }
+  if (cliAnswers.scope !== undefined) {
+    const problems = validateScope(cliAnswers.scope);
+    if (problems.length > 0) {
+      throw new Error(
+        formatPackageNameError("scope", cliAnswers.scope, problems),
+      );
+    }
+  }
 
-  // Determine the destination directory for the agent
-  const agentDestDir: string = path.join(agentsDir, agentName);
+  // Custom templates are checked before any prompts. The framework of a
+  // custom web template is known, so it is not asked for.
+  if (cliAnswers.webTemplate) {
+    const source = await resolveTemplateSource(cliAnswers.webTemplate);
+    try {
+      const framework = await validateWebTemplate(source);
+      if (cliAnswers.framework && cliAnswers.framework !== framework) {
+        throw new Error(
+          `The web template ${cliAnswers.webTemplate} is a ${framework} app, but the framework is set to ${cliAnswers.framework}`,
+        );
+      }
+      cliAnswers.framework = framework;
+    } finally {
+      await source.cleanup();
+    }
+  }
+  const customAgents: AgentManifest[] = [];
+  for (const template of cliAnswers.agentTemplates ?? []) {
+    const source = await resolveTemplateSource(template);
+    try {
+      customAgents.push(await validateAgentTemplate(source));
+    } finally {
+      await source.cleanup();
+    }
+  }
+  // Plugins are loaded before any prompts too, so a broken plugin is
+  // reported before any questions are answered
+  const plugins = await loadPlugins(cliAnswers.plugins ?? []);
+
+  // Config files, and --json are meant for non-interactive scaffolding, so use
+  // the defaults for any option they don't set, the same as -Y
+  const interactive = !(options.yes || options.config || options.json);
+  await init(
+    manifests,
+    interactive ? cliAnswers : applyDefaultAnswers(cliAnswers, manifests),
+    {
+      dryRun: options.dryRun ?? dryRun,
+      keepOnFailure: options.keepOnFailure ?? keepOnFailure,
+      onConflict: options.onConflict ?? onConflict,
+      interactive,
+      json: options.json,
+      customAgents,
+      plugins,
+    },
+  );
+}
+
+async function main(): Promise<void> {
+  // Discover the prebuilt agents from their manifests
+  const manifests = await loadAgentManifests(path.join(__dirname, "templates"));
 
-  // Create the destination directory if it doesn't exist
-  await fs.mkdir(agentDestDir, { recursive: true });
+  const program = new Command();
 
-  // Copy the agent template files
-  await fs.copy(agentTemplateDir, agentDestDir);
+  program
+    .name("create-agent-chat-app")
+    .description("Create an agent chat app with one command")
+    .version(await getCliVersion())
+    .argument(
+      "[directory]",
+      "Directory to create the project in, e.g. . for the current directory (default: the project name)",
+    )
+    .option("-Y, --yes", "Skip all prompts and use default values")
+    .option(
+      "--project-name <name>",
+      "Name of the project. A path, e.g. ../my-app, creates the project in that directory (default: agent-chat-app)",
+    )
+    .option(
+      "--scope <scope>",
+      "npm scope of the agents and web workspaces, e.g. @acme",
+    )
+    .option(
+      "--package-manager <manager>",
+      "Package manager to use (npm, pnpm, yarn, bun) (default: the package manager the CLI was run with, or yarn)",
+    )
+    .option(
+      "--install-deps <boolean>",
+      "Automatically install dependencies (default: true)",
+    )
+    .option(
+      "--offline",
+      "Install dependencies from the package manager's cache, and only fetch what is missing (Yarn 2 and later can't fetch anything)",
+    )
+    .option(
+      "--pin",
+      "Pin every dependency to the exact version this release was tested with, instead of a range",
+    )
+    .option(
+      "--framework <framework>",
+      "Framework to use (nextjs, vite) (default: nextjs)",
+    )
+    .option(
+      "--layout <layout>",
+      `Workspaces to generate (${LAYOUTS.join(", ")}) (default: full)`,
+    )
+    .option(
+      "--include-agent <agent...>",
+      `Pre-built agents to include (${manifests.map((m) => m.alias).join(", ")}) (default: all)`,
+    )
+    .option(
+      "--model-provider <provider>",
+      `LLM provider the agents use (${MODEL_PROVIDERS.join(", ")}) (default: anthropic)`,
+    )
+    .option(
+      "--vector-store <provider>",
+      `Vector store the retrieval agents use (${VECTOR_STORES.join(", ")}) (default: all, configurable at runtime)`,
+    )
+    .option(
+      "--embeddings <provider>",
+      `Embeddings provider the retrieval agents use (${EMBEDDINGS_PROVIDERS.join(", ")}) (default: all, configurable at runtime)`,
+    )
+    .option(
+      "--template <path>",
+      "Local directory or .tgz file to generate the web app from, instead of the bundled template of the framework",
+    )
+    .option(
+      "--agent-template <path...>",
+      "Local directories or .tgz files containing custom agent templates to include, in addition to the pre-built agents",
+    )
+    .option(
+      "--plugin <path...>",
+      "Local JavaScript modules which default export a plugin, to run after the built-in steps of the scaffolding pipeline",
+    )
+    .option(
+      "--app-title <title>",
+      `Title of the chat UI (default: "${DEFAULT_APP_TITLE}")`,
+    )
+    .option(
+      "--langgraph-port <port>",
+      `Port of the LangGraph development server (default: ${DEFAULT_LANGGRAPH_PORT})`,
+    )
+    .option(
+      "--docker",
+      "Generate a Dockerfile for the web app, and a compose file which runs it next to a self-hosted LangGraph server",
+    )
+    .option(
+      "--git",
+      "Initialize a git repository with an initial commit, unless the project is already inside one (default: asked, or false with -Y)",
+    )
+    .option("--no-git", "Don't initialize a git repository")
+    .option(
+      "--commit-message <message>",
+      `Message of the initial commit (default: "${DEFAULT_COMMIT_MESSAGE}")`,
+    )
+    .option(
+      "--env-from <file>",
+      "Import the values of the environment variables the agents need from a .env style file, and write them to .env",
+    )
+    .option(
+      "--config <path>",
+      "Path to an agent-chat.config.json (or .yaml) file. Command-line flags override its values",
+    )
+    .option(
+      "--dry-run",
+      "Print every file which would be created, without writing anything",
+    )
+    .option(
+      "--keep-on-failure",
+      "Keep the staging directory if creating the project fails, for debugging",
+    )
+    .option(
+      "--on-conflict <strategy>",
+      `How to handle files which already exist in the target directory (${CONFLICT_STRATEGIES.join(", ")}) (default: ask)`,
+    )
+    .option(
+      "--json",
+      "Skip all prompts, and print a single JSON document describing the result instead of the usual output",
+    )
+    .allowUnknownOption()
+    .action(async (directory: string | undefined, options) => {
+      try {
+        await runCreateCommand(directory, options, manifests);
+      } catch (e) {
+        if (!options.json) throw e;
+        printJsonReport(
+          createJsonReport({
+            exitCode: EXIT_CODES.error,
+            manifests,
+            errors: [(e as Error).message],
+          }),
+        );
+        process.exit(EXIT_CODES.error);
+      }
+    });
+
+  program
+    .command("add")
+    .description("Add pre-built agents to an existing agent chat app")
+    .argument(
+      "<agent...>",
+      `Pre-built agents to add (${manifests.map((m) => m.alias).join(", ")})`,
+    )
+    .action(async (names: string[]) => {
+      await addAgents(names, manifests, process.cwd());
+    });
+
+  program
+    .command("remove")
+    .description("Remove pre-built agents from an existing agent chat app")
+    .argument("<agent...>", "Pre-built agents to remove")
+    .option("-f, --force", "Delete modified agents without asking")
+    .action(async (names: string[], options: { force?: boolean }) => {
+      await removeAgents(names, manifests, process.cwd(), options);
+    });
+
+  program
+    .command("generate")
+    .description("Generate code inside an existing agent chat app")
+    .command("agent")
+    .description(
+      "Create a blank custom agent in apps/agents/src, and register its graph",
+    )
+    .argument("<name>", "Name of the agent, e.g. my-agent")
+    .option(
+      "--default-assistant",
+      "Make the new agent the default assistant of the web app",
+    )
+    .action(async (name: string, options: { defaultAssistant?: boolean }) => {
+      await generateAgent(name, process.cwd(), options);
+    });
+
+  program
+    .command("doctor")
+    .description(
+      "Check an existing agent chat app for configuration problems, and suggest fixes",
+    )
+    .action(async () => {
+      const passed = await runDoctor(manifests, process.cwd());
+      if (!passed) {
+        process.exit(EXIT_CODES.error);
+      }
+    });
+
+  program
+    .command("upgrade")
+    .description(
+      "Upgrade the template files of an existing agent chat app to this version, keeping your changes",
+    )
+    .option("--dry-run", "Print what would change, without writing anything")
+    .action(async (options: { dryRun?: boolean }) => {
+      await upgradeProject(manifests, process.cwd(), options);
+    });
 
-  console.log(`${chalk.green("✓")} Added ${chalk.cyan(agentName)}`);
+  await program.parseAsync();
 }
 
-init().catch((err: Error) => {
+main().catch((err: Error) => {
   console.error(chalk.red("Error:"), err);
   process.exit(1);
 });
@@ -0,0 +1,143 @@
+import path from "path";
+import {
+  AgentManifest,
+  getAgentEnv,
+  getAgentGraphs,
+  getProviderSelection,
+  selectAgentProviders,
+} from "./agents.js";
+import {
+  CreateProjectResult,
+  DevServers,
+  GitResult,
+  InstallResult,
+} from "./create-project.js";
+import { ProjectAnswers } from "./types.js";
+
+/**
+ * The exit codes of the CLI, so scripts can tell failures apart.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /**
+   * Any error which does not have its own exit code, e.g. an invalid config file.
+   */
+  error: 1,
+  /**
+   * The target directory already exists, and the project can not be created in it.
+   */
+  directoryExists: 2,
+  /**
+   * The project was created, but its dependencies could not be installed.
+   */
+  installFailed: 3,
+  /**
+   * One or more project files could not be generated from the templates.
+   */
+  templateError: 4,
+} as const;
+
+/**
+ * The document printed by `--json`. Fields which are not known when the CLI
+ * fails early, e.g. because of an invalid config file, are left out.
+ */
+export interface JsonReport {
+  success: boolean;
+  exitCode: number;
+  answers?: ProjectAnswers;
+  targetDir?: string;
+  dryRun?: boolean;
+  /**
+   * The included prebuilt agents, with the IDs of the graphs they register.
+   */
+  agents?: { id: string; label: string; graphs: string[] }[];
+  /**
+   * The paths of every registered graph, keyed by graph ID.
+   */
+  graphs?: Record<string, string>;
+  requiredEnvVars?: string[];
+  optionalEnvVars?: string[];
+  devServers?: DevServers;
+  /**
+   * Every file which was written, relative to the target directory.
+   */
+  files?: string[];
+  warnings?: string[];
+  install?: InstallResult;
+  git?: GitResult;
+  errors: string[];
+}
+
+/**
+ * Builds the `--json` document from the outcome of a run.
+ *
+ * @param inputs - Object containing the following properties:
+ * @param inputs.exitCode - The exit code the CLI exits with
+ * @param inputs.answers - The resolved project configuration, if known
+ * @param inputs.manifests - All available prebuilt agents
+ * @param inputs.result - The result of creating the project, if it succeeded
+ * @param inputs.errors - The messages of every error which occurred
+ * @returns {JsonReport} The document to print
+ */
+export function createJsonReport(inputs: {
+  exitCode: number;
+  answers?: ProjectAnswers;
+  manifests: AgentManifest[];
+  result?: CreateProjectResult;
+  errors?: string[];
+}): JsonReport {
+  const { exitCode, answers, manifests, result } = inputs;
+  const report: JsonReport = {
+    success: exitCode === EXIT_CODES.success,
+    exitCode,
+    errors: inputs.errors ?? [],
+  };
+  if (!answers) return report;
+
+  const agents = manifests
+    .filter((m) => answers.agents.includes(m.id))
+    .map((agent) => selectAgentProviders(agent, getProviderSelection(answers)));
+  const graphs: Record<string, string> = Object.assign(
+    {},
+    ...agents.map((agent) => getAgentGraphs(agent)),
+  );
+  const envs = agents.map(getAgentEnv);
+  const requiredEnvVars = new Set(envs.flatMap((env) => env.required));
+  const optionalEnvVars = new Set(
+    envs
+      .flatMap((env) => env.optional)
+      .filter((envVar) => !requiredEnvVars.has(envVar)),
+  );
+
+  return {
+    ...report,
+    // The values of the environment variables are secrets, so they are never printed
+    answers: { ...answers, env: undefined },
+    targetDir:
+      result?.targetDir ??
+      path.resolve(answers.directory ?? answers.projectName),
+    dryRun: result?.dryRun,
+    agents: agents.map((agent) => ({
+      id: agent.id,
+      label: agent.label,
+      graphs: Object.keys(agent.graphs),
+    })),
+    graphs,
+    requiredEnvVars: Array.from(requiredEnvVars),
+    optionalEnvVars: Array.from(optionalEnvVars),
+    devServers: result?.devServers,
+    files: result?.files,
+    warnings: result?.warnings,
+    install: result?.install,
+    git: result?.git,
+  };
+}
+
+/**
+ * Prints a `--json` document to stdout.
+ *
+ * @param {JsonReport} report - The document to print
+ */
+export function printJsonReport(report: JsonReport): void {
+  console.log(JSON.stringify(report, null, 2));
+}
@@ -0,0 +1,161 @@
+import path from "path";
+import fs from "fs-extra";
+import { execSync } from "child_process";
+import { PACKAGE_MANAGERS, PackageManager } from "./types.js";
+
+/**
+ * The lockfile each package manager writes, in the order they are checked.
+ */
+const LOCKFILES: [string, PackageManager][] = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+  ["package-lock.json", "npm"],
+];
+
+function isPackageManager(name: string): name is PackageManager {
+  return (PACKAGE_MANAGERS as readonly string[]).includes(name);
+}
+
+/**
+ * Detects the package manager the CLI was invoked with, e.g. through
+ * `pnpm create agent-chat-app`, from the `npm_config_user_agent` environment
+ * variable. If it is not set, the lockfiles in the current directory and its
+ * parents are used instead.
+ *
+ * @param {string} cwd - The directory the CLI was run from
+ * @param {Record<string, string | undefined>} env - The environment variables
+ * @returns {PackageManager | undefined} The detected package manager, if any
+ */
+export function detectPackageManager(
+  cwd: string,
+  env: Record<string, string | undefined> = process.env,
+): PackageManager | undefined {
+  // e.g. "pnpm/10.6.3 npm/? node/v20.11.0 linux x64"
+  const userAgent = env.npm_config_user_agent;
+  if (userAgent) {
+    const name = userAgent.split(" ")[0].split("/")[0];
+    if (isPackageManager(name)) {
+      return name;
+    }
+  }
+
+  let dir = path.resolve(cwd);
+  for (;;) {
+    for (const [lockfile, packageManager] of LOCKFILES) {
+      if (fs.existsSync(path.join(dir, lockfile))) {
+        return packageManager;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Returns the installed version of a package manager.
+ *
+ * @param {PackageManager} packageManager - The package manager to check
+ * @param {string} [cwd] - The directory to check in, as Yarn 2 and later can be pinned per project
+ * @returns {string | undefined} The version, or undefined if it is not installed
+ */
+export function getPackageManagerVersion(
+  packageManager: PackageManager,
+  cwd?: string,
+): string | undefined {
+  try {
+    return execSync(`${packageManager} --version`, {
+      cwd,
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: 15000,
+    })
+      .toString()
+      .trim();
+  } catch (_) {
+    return undefined;
+  }
+}
+
+/**
+ * Returns every supported package manager which is installed, with its version.
+ *
+ * @returns {Partial<Record<PackageManager, string>>} The versions, keyed by package manager
+ */
+export function getInstalledPackageManagers(): Partial<
+  Record<PackageManager, string>
+> {
+  const installed: Partial<Record<PackageManager, string>> = {};
+  for (const packageManager of PACKAGE_MANAGERS) {
+    const version = getPackageManagerVersion(packageManager);
+    if (version) {
+      installed[packageManager] = version;
+    }
+  }
+  return installed;
+}
+
+/**
+ * The command which installs a project's dependencies.
+ */
+export interface InstallCommand {
+  /**
+   * The arguments of the package manager, e.g. `["install", "--prefer-offline"]`.
+   */
+  args: string[];
+  /**
+   * The environment variables the command is run with, in addition to the
+   * environment of the CLI.
+   */
+  env: Record<string, string>;
+}
+
+/**
+ * Returns the command which installs a project's dependencies. Offline
+ * installs use the package manager's cache first, and only fetch what is missing:
+ * npm, pnpm, Bun and Yarn 1 with `--prefer-offline`. Yarn 2 and later have no
+ * such flag, so the network is disabled through the `enableNetwork` setting,
+ * and every package must be in the cache.
+ *
+ * @param {PackageManager} packageManager - The package manager to use
+ * @param {boolean} offline - Whether to install from the package manager's cache
+ * @param {string} cwd - The directory the command runs in, which decides the Yarn version
+ * @returns {InstallCommand} The arguments and environment of the command
+ */
+export function getInstallCommand(
+  packageManager: PackageManager,
+  offline = false,
+  cwd = process.cwd(),
+): InstallCommand {
+  if (!offline) {
+    return { args: ["install"], env: {} };
+  }
+  if (packageManager === "yarn") {
+    const version = getPackageManagerVersion("yarn", cwd);
+    // Without a version, the project's `packageManager` field decides,
+    // which is always Yarn 3
+    if (!version?.startsWith("1.")) {
+      return { args: ["install"], env: { YARN_ENABLE_NETWORK: "0" } };
+    }
+  }
+  return { args: ["install", "--prefer-offline"], env: {} };
+}
+
+/**
+ * Formats an install command the way it is run from a shell.
+ *
+ * @param {PackageManager} packageManager - The package manager to use
+ * @param {InstallCommand} command - The arguments and environment of the command
+ * @returns {string} The command, e.g. `YARN_ENABLE_NETWORK=0 yarn install`
+ */
+export function formatInstallCommand(
+  packageManager: PackageManager,
+  command: InstallCommand,
+): string {
+  return [
+    ...Object.entries(command.env).map(([name, value]) => `${name}=${value}`),
+    packageManager,
+    ...command.args,
+  ].join(" ");
+}
@@ -0,0 +1,114 @@
+import path from "path";
+import { builtinModules } from "module";
+
+/**
+ * Names npm does not allow, regardless of the other rules.
+ */
+const RESERVED_NAMES = ["node_modules", "favicon.ico"];
+
+/**
+ * npm packages can not be published with names longer than this.
+ */
+const MAX_NAME_LENGTH = 214;
+
+/**
+ * Splits a scoped package name into its scope and name, e.g. `@acme/web`.
+ */
+const SCOPED_NAME = /^@([^/]+)\/([^/]+)$/;
+
+/**
+ * Checks a package name against the naming rules of npm, the same rules
+ * `npm init` applies to new packages.
+ *
+ * @param {string} name - The package name, which may be scoped, e.g. `@acme/web`
+ * @returns {string[]} Every rule the name breaks, or an empty array if it is valid
+ */
+export function validatePackageName(name: string): string[] {
+  if (name === "") {
+    return ["The name can not be empty"];
+  }
+
+  const problems: string[] = [];
+  if (name.startsWith(".")) {
+    problems.push("The name can not start with a period");
+  }
+  if (name.startsWith("_")) {
+    problems.push("The name can not start with an underscore");
+  }
+  if (name.trim() !== name) {
+    problems.push("The name can not contain leading or trailing spaces");
+  }
+  if (RESERVED_NAMES.includes(name.toLowerCase())) {
+    problems.push("The name is reserved by npm");
+  }
+  if (builtinModules.includes(name.toLowerCase())) {
+    problems.push("The name is taken by a Node.js core module");
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    problems.push(
+      `The name can not be longer than ${MAX_NAME_LENGTH} characters`,
+    );
+  }
+  if (name.toLowerCase() !== name) {
+    problems.push("The name can not contain uppercase letters");
+  }
+  if (/[~'!()*]/.test(name.split("/").pop() as string)) {
+    problems.push(`The name can not contain any of the characters ~'!()*`);
+  }
+  const parts = name.match(SCOPED_NAME)?.slice(1) ?? [name];
+  if (parts.some((part) => encodeURIComponent(part) !== part)) {
+    problems.push(
+      "The name can only contain URL-friendly characters, e.g. no spaces",
+    );
+  }
+  return problems;
+}
+
+/**
+ * Interprets a project name which was given as a path, e.g. `../foo` or
+ * `apps/my-app`: the project is created in that directory, and named after
+ * its last segment. Names without a path separator are returned as is.
+ *
+ * @param {string} input - The project name, or path
+ * @returns {{ projectName: string; directory?: string }} The name of the project, and the directory to create it in, if it was given as a path
+ */
+export function parseProjectName(input: string): {
+  projectName: string;
+  directory?: string;
+} {
+  if (!/[\\/]/.test(input)) {
+    return { projectName: input };
+  }
+  return { projectName: path.basename(path.resolve(input)), directory: input };
+}
+
+/**
+ * Formats the problems `validatePackageName` found as an error message.
+ *
+ * @param {string} label - What the name is, e.g. `project name`
+ * @param {string} name - The invalid name
+ * @param {string[]} problems - The rules the name breaks
+ * @returns {string} The error message
+ */
+export function formatPackageNameError(
+  label: string,
+  name: string,
+  problems: string[],
+): string {
+  return `Invalid ${label} "${name}":\n${problems.map((p) => `  - ${p}`).join("\n")}`;
+}
+
+/**
+ * Checks the npm scope the workspaces are published under, e.g. `@acme`.
+ *
+ * @param {string} scope - The scope, including the leading `@`
+ * @returns {string[]} Every rule the scope breaks, or an empty array if it is valid
+ */
+export function validateScope(scope: string): string[] {
+  if (!/^@[^/]+$/.test(scope)) {
+    return [
+      "The scope must start with @, and can not contain slashes, e.g. @acme",
+    ];
+  }
+  return validatePackageName(`${scope}/web`);
+}
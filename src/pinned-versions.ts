@@ -0,0 +1,80 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { readJsonFile } from "./project.js";
+
+// Get the directory name of the current module
+const __filename: string = fileURLToPath(import.meta.url);
+const __dirname: string = path.dirname(__filename);
+
+/**
+ * The manifest shipped with the CLI, which maps every dependency range the
+ * templates use to the exact version the release was tested with. It is
+ * generated with `scripts/update-pinned-versions.sh`.
+ */
+export const PINNED_VERSIONS_FILE = "pinned-versions.json";
+
+/**
+ * The exact versions of dependencies, keyed by `name@range`, e.g.
+ * `zod@^3.23.8`. The same package can be depended on with different ranges
+ * in different workspaces, so every range is pinned separately.
+ */
+export type PinnedVersions = Record<string, string>;
+
+/**
+ * The package.json fields whose ranges are pinned. Peer dependencies are
+ * left alone, as they describe what a package is compatible with.
+ */
+export const PINNED_DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "resolutions",
+  "overrides",
+] as const;
+
+/**
+ * Reads the pinned versions manifest shipped with the CLI.
+ *
+ * @returns {Promise<PinnedVersions>} The exact versions, keyed by `name@range`
+ * @throws {Error} If the manifest can not be read
+ */
+export async function loadPinnedVersions(): Promise<PinnedVersions> {
+  try {
+    return await readJsonFile(path.join(__dirname, PINNED_VERSIONS_FILE));
+  } catch (e) {
+    throw new Error(
+      `Failed to read the pinned versions: ${(e as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Replaces the ranges of dependencies with the exact versions they are
+ * pinned to. Ranges which use a protocol, e.g. `workspace:*`, or are already
+ * exact versions, are kept as they are.
+ *
+ * @param {Record<string, unknown>} dependencies - The dependencies, keyed by name. Values which are not strings, e.g. nested npm overrides, are kept
+ * @param {PinnedVersions} pinned - The exact versions, keyed by `name@range`
+ * @returns {{ dependencies: Record<string, unknown>; unpinned: string[] }} The pinned dependencies, and every `name@range` without a pinned version
+ */
+export function pinDependencies(
+  dependencies: Record<string, unknown>,
+  pinned: PinnedVersions,
+): { dependencies: Record<string, unknown>; unpinned: string[] } {
+  const unpinned: string[] = [];
+  const result: Record<string, unknown> = {};
+  for (const [name, range] of Object.entries(dependencies)) {
+    result[name] = range;
+    if (typeof range !== "string") continue;
+    // Exact versions, and protocols like `workspace:` or `file:`
+    if (/^\d+\.\d+\.\d+(-[\w.]+)?$/.test(range)) continue;
+    if (/^[a-z]+:/.test(range)) continue;
+    const version = pinned[`${name}@${range}`];
+    if (version) {
+      result[name] = version;
+    } else {
+      unpinned.push(`${name}@${range}`);
+    }
+  }
+  return { dependencies: result, unpinned };
+}
@@ -0,0 +1,331 @@
+import path from "path";
+import fs from "fs-extra";
+import { pathToFileURL } from "url";
+import { AgentManifest } from "./agents.js";
+import { InstallResult, Logger } from "./create-project.js";
+import { ScaffoldFs } from "./scaffold-fs.js";
+import { TemplateVariables } from "./template-engine.js";
+import { ProjectAnswers } from "./types.js";
+
+/**
+ * The workspaces whose package.json files plugins can transform.
+ */
+export type PackageJsonWorkspace = "root" | "agents" | "web";
+
+/**
+ * What every plugin hook receives.
+ */
+export interface PluginContext {
+  /**
+   * The resolved project configuration.
+   */
+  answers: Readonly<ProjectAnswers>;
+  /**
+   * The agents which are included in the project, with their providers selected.
+   */
+  agents: AgentManifest[];
+  /**
+   * The variables the templates are rendered with.
+   */
+  variables: Readonly<TemplateVariables>;
+  /**
+   * The root directory of the project. Until the project is moved into
+   * place, this is a staging directory, or the target directory of a dry run
+   * in which nothing is written to disk, so every file must be read and
+   * written through `fs`.
+   */
+  baseDir: string;
+  /**
+   * The filesystem the project is generated in.
+   */
+  fs: ScaffoldFs;
+  /**
+   * Receives progress messages.
+   */
+  logger: Logger;
+}
+
+/**
+ * What the `transformPackageJson` hook receives, in addition to the package.json.
+ */
+export interface PackageJsonContext extends PluginContext {
+  /**
+   * The workspace the package.json belongs to.
+   */
+  workspace: PackageJsonWorkspace;
+}
+
+/**
+ * What the `afterInstall` hook receives. The project has been moved into
+ * place, and `baseDir` is its target directory.
+ */
+export interface AfterInstallContext extends PluginContext {
+  /**
+   * The outcome of installing the dependencies, which may have been skipped.
+   */
+  install: InstallResult;
+}
+
+/**
+ * A JSON transform either changes the object it is given in place, or
+ * returns the object to write instead.
+ */
+type JsonTransformResult =
+  | Record<string, any>
+  | void
+  | Promise<Record<string, any> | void>;
+
+/**
+ * A step of the scaffolding pipeline. Every hook is optional, and the hooks
+ * of all plugins run in order: the built-in plugins first, then the plugins
+ * from the config file and `--plugin` flags, in the order they were given.
+ */
+export interface Plugin {
+  /**
+   * The name errors are reported with.
+   */
+  name: string;
+  /**
+   * Runs once the empty project directory has been created.
+   */
+  beforeCopy?: (context: PluginContext) => void | Promise<void>;
+  /**
+   * Runs once the monorepo, web app and agent templates have been copied and
+   * rendered.
+   */
+  afterCopy?: (context: PluginContext) => void | Promise<void>;
+  /**
+   * Transforms the package.json of the root, and of every workspace the
+   * project has, after `afterCopy`.
+   */
+  transformPackageJson?: (
+    pkgJson: Record<string, any>,
+    context: PackageJsonContext,
+  ) => JsonTransformResult;
+  /**
+   * Transforms `langgraph.json`, after `transformPackageJson`. Web-only
+   * projects have none.
+   */
+  transformLangGraphConfig?: (
+    config: Record<string, any>,
+    context: PluginContext,
+  ) => JsonTransformResult;
+  /**
+   * Runs once the project has been moved into place, and its dependencies
+   * were installed, before the git repository is initialized. It runs when
+   * installing was skipped or failed too, but never in dry runs.
+   */
+  afterInstall?: (context: AfterInstallContext) => void | Promise<void>;
+}
+
+/**
+ * The hooks a plugin can implement.
+ */
+const PLUGIN_HOOKS = [
+  "beforeCopy",
+  "afterCopy",
+  "transformPackageJson",
+  "transformLangGraphConfig",
+  "afterInstall",
+] as const;
+
+type PluginHook = (typeof PLUGIN_HOOKS)[number];
+
+/**
+ * Checks that a plugin module exported a valid plugin.
+ *
+ * @param {unknown} plugin - The default export of the plugin module
+ * @param {string} source - The path the plugin was loaded from, for error messages
+ * @returns {Plugin} The plugin
+ * @throws {Error} If the plugin is not an object with a name, and only functions as hooks
+ */
+function validatePlugin(plugin: unknown, source: string): Plugin {
+  const problems: string[] = [];
+  if (typeof plugin !== "object" || plugin === null) {
+    problems.push("The module must default export a plugin object");
+  } else {
+    const { name } = plugin as Record<string, unknown>;
+    if (typeof name !== "string" || name === "") {
+      problems.push(`"name" must be a non-empty string`);
+    }
+    for (const [key, value] of Object.entries(plugin)) {
+      if (key === "name") continue;
+      if (!(PLUGIN_HOOKS as readonly string[]).includes(key)) {
+        problems.push(
+          `Unknown hook "${key}". Valid hooks are: ${PLUGIN_HOOKS.join(", ")}`,
+        );
+      } else if (typeof value !== "function") {
+        problems.push(`"${key}" must be a function`);
+      }
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid plugin ${source}:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+    );
+  }
+  return plugin as Plugin;
+}
+
+/**
+ * Loads plugins from local JavaScript modules, which default export a
+ * plugin object.
+ *
+ * @param {string[]} sources - The paths to the plugin modules
+ * @returns {Promise<Plugin[]>} The plugins, in the same order
+ * @throws {Error} If a module does not exist, fails to load, or does not export a valid plugin
+ */
+export async function loadPlugins(sources: string[]): Promise<Plugin[]> {
+  const plugins: Plugin[] = [];
+  for (const source of sources) {
+    const sourcePath = path.resolve(source);
+    if (!(await fs.exists(sourcePath))) {
+      throw new Error(`Plugin ${source} does not exist`);
+    }
+    let module: Record<string, unknown>;
+    try {
+      module = await import(pathToFileURL(sourcePath).href);
+    } catch (e) {
+      throw new Error(
+        `Failed to load plugin ${source}: ${(e as Error).message}`,
+      );
+    }
+    plugins.push(validatePlugin(module.default, source));
+  }
+  return plugins;
+}
+
+function toHookError(plugin: Plugin, hook: PluginHook, e: unknown): Error {
+  return new Error(
+    `Plugin ${plugin.name} failed in ${hook}: ${(e as Error).message}`,
+  );
+}
+
+/**
+ * Runs a hook of every plugin which implements it, one after another. A
+ * plugin which fails does not stop the remaining plugins from running, so
+ * that all errors can be reported together.
+ *
+ * @param {Plugin[]} plugins - The plugins, in the order they run in
+ * @param {"beforeCopy" | "afterCopy" | "afterInstall"} hook - The hook to run
+ * @param context - The context the hook receives
+ * @returns {Promise<Error[]>} The errors of every plugin which failed
+ */
+export async function runPluginHook<
+  Hook extends "beforeCopy" | "afterCopy" | "afterInstall",
+>(
+  plugins: Plugin[],
+  hook: Hook,
+  context: Parameters<NonNullable<Plugin[Hook]>>[0],
+): Promise<Error[]> {
+  const errors: Error[] = [];
+  for (const plugin of plugins) {
+    try {
+      const run = plugin[hook] as
+        | ((context: Parameters<NonNullable<Plugin[Hook]>>[0]) => unknown)
+        | undefined;
+      await run?.call(plugin, context);
+    } catch (e) {
+      errors.push(toHookError(plugin, hook, e));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Reads a JSON file, passes it through the transforms of every plugin, and
+ * writes it again if any of them changed it.
+ */
+async function transformJsonFile(
+  filePath: string,
+  plugins: Plugin[],
+  hook: "transformPackageJson" | "transformLangGraphConfig",
+  context: PluginContext,
+  transform: (plugin: Plugin, json: Record<string, any>) => JsonTransformResult,
+  trailingNewline: boolean,
+): Promise<Error[]> {
+  const file = path.relative(context.baseDir, filePath);
+  let json: Record<string, any>;
+  try {
+    json = JSON.parse(await context.fs.readFile(filePath));
+  } catch (e) {
+    return [new Error(`Failed to read ${file}: ${(e as Error).message}`)];
+  }
+
+  const original = JSON.stringify(json);
+  const errors: Error[] = [];
+  for (const plugin of plugins) {
+    if (!plugin[hook]) continue;
+    try {
+      const transformed = await transform(plugin, json);
+      if (transformed) {
+        json = transformed;
+      }
+    } catch (e) {
+      errors.push(toHookError(plugin, hook, e));
+    }
+  }
+  if (JSON.stringify(json) !== original) {
+    try {
+      await context.fs.writeFile(
+        filePath,
+        JSON.stringify(json, null, 2) + (trailingNewline ? "\n" : ""),
+      );
+    } catch (e) {
+      errors.push(
+        new Error(`Failed to write ${file}: ${(e as Error).message}`),
+      );
+    }
+  }
+  return errors;
+}
+
+/**
+ * Runs the `transformPackageJson` hook of every plugin on the package.json
+ * of a workspace.
+ *
+ * @param {Plugin[]} plugins - The plugins, in the order they run in
+ * @param {PackageJsonWorkspace} workspace - The workspace whose package.json to transform
+ * @param {PluginContext} context - The context the hook receives
+ * @returns {Promise<Error[]>} The errors of every plugin which failed
+ */
+export async function transformPackageJson(
+  plugins: Plugin[],
+  workspace: PackageJsonWorkspace,
+  context: PluginContext,
+): Promise<Error[]> {
+  const pkgJsonPath =
+    workspace === "root"
+      ? path.join(context.baseDir, "package.json")
+      : path.join(context.baseDir, "apps", workspace, "package.json");
+  return transformJsonFile(
+    pkgJsonPath,
+    plugins,
+    "transformPackageJson",
+    context,
+    (plugin, pkgJson) =>
+      plugin.transformPackageJson?.(pkgJson, { ...context, workspace }),
+    false,
+  );
+}
+
+/**
+ * Runs the `transformLangGraphConfig` hook of every plugin on `langgraph.json`.
+ *
+ * @param {Plugin[]} plugins - The plugins, in the order they run in
+ * @param {PluginContext} context - The context the hook receives
+ * @returns {Promise<Error[]>} The errors of every plugin which failed
+ */
+export async function transformLangGraphConfig(
+  plugins: Plugin[],
+  context: PluginContext,
+): Promise<Error[]> {
+  return transformJsonFile(
+    path.join(context.baseDir, "langgraph.json"),
+    plugins,
+    "transformLangGraphConfig",
+    context,
+    (plugin, config) => plugin.transformLangGraphConfig?.(config, context),
+    true,
+  );
+}
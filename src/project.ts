@@ -0,0 +1,209 @@
+import path from "path";
+import fs from "fs-extra";
+import { AgentManifest } from "./agents.js";
+
+/**
+ * The paths to the files inside a generated project which the CLI
+ * reads and updates after the project has been created.
+ */
+export interface ProjectPaths {
+  rootDir: string;
+  rootPkgJsonPath: string;
+  langGraphConfigPath: string;
+  envExamplePath: string;
+  agentsPkgJsonPath: string;
+  agentsSrcDir: string;
+}
+
+/**
+ * Returns the paths to the files inside a generated project.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @returns {ProjectPaths} The project paths
+ */
+export function getProjectPaths(rootDir: string): ProjectPaths {
+  return {
+    rootDir,
+    rootPkgJsonPath: path.join(rootDir, "package.json"),
+    langGraphConfigPath: path.join(rootDir, "langgraph.json"),
+    envExamplePath: path.join(rootDir, ".env.example"),
+    agentsPkgJsonPath: path.join(rootDir, "apps", "agents", "package.json"),
+    agentsSrcDir: path.join(rootDir, "apps", "agents", "src"),
+  };
+}
+
+/**
+ * Finds the root of a generated project by walking up from the given directory
+ * until a directory containing both `langgraph.json` and an agents workspace is found.
+ *
+ * @param {string} startDir - The directory to start searching from
+ * @returns {Promise<string>} The root directory of the project
+ */
+export async function findProjectRoot(startDir: string): Promise<string> {
+  let dir = path.resolve(startDir);
+  for (;;) {
+    const paths = getProjectPaths(dir);
+    if (
+      (await fs.exists(paths.langGraphConfigPath)) &&
+      (await fs.exists(paths.agentsPkgJsonPath))
+    ) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      throw new Error(
+        `Could not find an agent chat app in ${startDir}. Run this command from inside a project created with create-agent-chat-app.`,
+      );
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Recursively lists every file inside a directory.
+ *
+ * @param {string} dir - The directory to list
+ * @returns {Promise<string[]>} The file paths, relative to the directory
+ */
+export async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      const nested = await listFiles(path.join(dir, entry.name));
+      files.push(...nested.map((file) => path.join(entry.name, file)));
+    } else {
+      files.push(entry.name);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Reads and parses a JSON file.
+ *
+ * @param {string} filePath - The path to the JSON file
+ * @returns {Promise<Record<string, any>>} The parsed contents
+ */
+export async function readJsonFile(
+  filePath: string,
+): Promise<Record<string, any>> {
+  return JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+}
+
+/**
+ * Writes a JSON file using the same formatting as the generated project.
+ *
+ * @param {string} filePath - The path to the JSON file
+ * @param {Record<string, any>} contents - The contents to write
+ */
+export async function writeJsonFile(
+  filePath: string,
+  contents: Record<string, any>,
+): Promise<void> {
+  await fs.promises.writeFile(
+    filePath,
+    JSON.stringify(contents, null, 2) + "\n",
+  );
+}
+
+/**
+ * Extracts the names of the environment variables declared in a `.env` style
+ * file. Commented out declarations (e.g. `# LANGSMITH_API_KEY=""`) are included.
+ *
+ * @param {string} contents - The contents of the file
+ * @returns {string[]} The environment variable names
+ */
+export function parseEnvKeys(contents: string): string[] {
+  const keys: string[] = [];
+  for (const line of contents.split(/\r?\n/)) {
+    const match = line.match(
+      /^\s*#?\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)=/,
+    );
+    if (match && !keys.includes(match[1])) {
+      keys.push(match[1]);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Parses the variables declared in a `.env` style file. Commented out
+ * declarations are ignored, and quoted values are unquoted.
+ *
+ * @param {string} contents - The contents of the file
+ * @returns {Record<string, string>} The values, keyed by variable name
+ */
+export function parseEnvFile(contents: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const line of contents.split(/\r?\n/)) {
+    const match = line.match(
+      /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)=(.*)$/,
+    );
+    if (!match) continue;
+    let value = match[2].trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      try {
+        value = JSON.parse(value);
+      } catch (_) {
+        value = value.slice(1, -1);
+      }
+    } else if (
+      value.startsWith("'") &&
+      value.endsWith("'") &&
+      value.length > 1
+    ) {
+      value = value.slice(1, -1);
+    } else {
+      // Unquoted values may be followed by a comment
+      value = value.replace(/\s+#.*$/, "");
+    }
+    values[match[1]] = value;
+  }
+  return values;
+}
+
+/**
+ * Reads the package manager a project was created with from the
+ * `packageManager` field of its root package.json.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @returns {Promise<string>} The package manager name, defaulting to npm
+ */
+export async function getProjectPackageManager(
+  rootDir: string,
+): Promise<string> {
+  try {
+    const pkgJson = await readJsonFile(
+      getProjectPaths(rootDir).rootPkgJsonPath,
+    );
+    if (typeof pkgJson.packageManager === "string") {
+      return pkgJson.packageManager.split("@")[0];
+    }
+  } catch (_) {
+    // Fall through to the default
+  }
+  return "npm";
+}
+
+/**
+ * Returns the prebuilt agents which are present in a project, based on
+ * which agent directories exist inside `apps/agents/src`.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @param {AgentManifest[]} manifests - All available prebuilt agents
+ * @returns {Promise<AgentManifest[]>} The agents present in the project
+ */
+export async function getInstalledAgents(
+  rootDir: string,
+  manifests: AgentManifest[],
+): Promise<AgentManifest[]> {
+  const { agentsSrcDir } = getProjectPaths(rootDir);
+  const installed: AgentManifest[] = [];
+  for (const manifest of manifests) {
+    if (await fs.exists(path.join(agentsSrcDir, manifest.id))) {
+      installed.push(manifest);
+    }
+  }
+  return installed;
+}
@@ -0,0 +1,327 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import chalk from "chalk";
+import { createTwoFilesPatch } from "diff";
+import { confirm, isCancel } from "@clack/prompts";
+import {
+  AgentManifest,
+  ProviderSelection,
+  copyAgentTemplate,
+  getAgentDependencies,
+  getAgentEnvVars,
+  getProviderSelection,
+  resolveAgentManifests,
+  selectAgentProviders,
+} from "./agents.js";
+import {
+  findProjectRoot,
+  getInstalledAgents,
+  getProjectPackageManager,
+  getProjectPaths,
+  listFiles,
+  readJsonFile,
+  writeJsonFile,
+} from "./project.js";
+import { getTemplateVariables } from "./create-project.js";
+import { createVirtualFs } from "./scaffold-fs.js";
+import { TemplateVariables } from "./template-engine.js";
+import { readTemplateLock } from "./template-lock.js";
+
+/**
+ * The changes a user has made to an agent since it was copied from its template.
+ */
+interface AgentModifications {
+  /**
+   * Unified diffs of the files which differ from the template, keyed by file path.
+   */
+  modified: Record<string, string>;
+  /**
+   * Files which do not exist in the template.
+   */
+  added: string[];
+}
+
+/**
+ * Compares the agent directory inside a project against the agent template
+ * to find any files the user has changed or added. The template is rendered
+ * in memory for the providers the project was created with first, the same
+ * way it was when the agent was added.
+ *
+ * @param {AgentManifest} agent - The agent to compare
+ * @param {string} agentDir - The agent directory inside the project
+ * @param {ProviderSelection} selection - The providers the project was created with
+ * @param {TemplateVariables} variables - The variables the project was created with
+ * @returns {Promise<AgentModifications>} The user's modifications
+ */
+async function findAgentModifications(
+  agent: AgentManifest,
+  agentDir: string,
+  selection: ProviderSelection,
+  variables: TemplateVariables,
+): Promise<AgentModifications> {
+  const virtualFs = createVirtualFs();
+  const renderedDir = path.join(
+    os.tmpdir(),
+    "create-agent-chat-app-remove",
+    agent.id,
+  );
+  await copyAgentTemplate(
+    selectAgentProviders(agent, selection),
+    path.dirname(renderedDir),
+    virtualFs,
+    variables,
+  );
+
+  const modifications: AgentModifications = { modified: {}, added: [] };
+  for (const file of await listFiles(agentDir)) {
+    const original = virtualFs.files.get(path.join(renderedDir, file));
+    if (!original) {
+      modifications.added.push(file);
+      continue;
+    }
+    const current = await fs.promises.readFile(path.join(agentDir, file));
+    if (current.equals(original)) continue;
+
+    modifications.modified[file] =
+      current.includes(0) || original.includes(0)
+        ? `Binary file ${file} differs`
+        : createTwoFilesPatch(
+            `template/${file}`,
+            file,
+            original.toString("utf8"),
+            current.toString("utf8"),
+          );
+  }
+  return modifications;
+}
+
+/**
+ * Prints the user's modifications to an agent, colouring the diff lines.
+ *
+ * @param {AgentManifest} agent - The modified agent
+ * @param {AgentModifications} modifications - The user's modifications
+ */
+function printAgentModifications(
+  agent: AgentManifest,
+  modifications: AgentModifications,
+): void {
+  console.log(
+    `${chalk.yellow("Warning: ")} ${chalk.cyan(agent.id)} has been modified since it was added:\n`,
+  );
+  Object.values(modifications.modified).forEach((patch) => {
+    const lines = patch.split("\n").map((line) => {
+      if (line.startsWith("+") && !line.startsWith("+++")) {
+        return chalk.green(line);
+      }
+      if (line.startsWith("-") && !line.startsWith("---")) {
+        return chalk.red(line);
+      }
+      return line;
+    });
+    console.log(lines.join("\n"));
+  });
+  modifications.added.forEach((file) => {
+    console.log(`${chalk.green("+")} New file: ${file}`);
+  });
+  console.log();
+}
+
+/**
+ * Removes the `graphs` entries which point inside the given agents' directories.
+ *
+ * @param {string} langGraphConfigPath - The path to the langgraph.json file
+ * @param {AgentManifest[]} agents - The agents being removed
+ * @returns {Promise<string[]>} The removed graph IDs
+ */
+async function unregisterAgentGraphs(
+  langGraphConfigPath: string,
+  agents: AgentManifest[],
+): Promise<string[]> {
+  const config = await readJsonFile(langGraphConfigPath);
+  const removed: string[] = [];
+  for (const [graphId, graphPath] of Object.entries<string>(
+    config.graphs ?? {},
+  )) {
+    const normalizedPath = graphPath.replace(/^\.\//, "");
+    if (
+      agents.some((agent) =>
+        normalizedPath.startsWith(`apps/agents/src/${agent.id}/`),
+      )
+    ) {
+      delete config.graphs[graphId];
+      removed.push(graphId);
+    }
+  }
+  if (removed.length > 0) {
+    await writeJsonFile(langGraphConfigPath, config);
+  }
+  return removed;
+}
+
+/**
+ * Removes the given dependencies from the agents workspace package.json.
+ *
+ * @param {string} agentsPkgJsonPath - The path to the agents package.json
+ * @param {string[]} dependencies - The dependencies to remove
+ * @returns {Promise<string[]>} The dependencies which were removed
+ */
+async function pruneAgentDependencies(
+  agentsPkgJsonPath: string,
+  dependencies: string[],
+): Promise<string[]> {
+  const pkgJson = await readJsonFile(agentsPkgJsonPath);
+  const removed = dependencies.filter(
+    (name) => pkgJson.dependencies && name in pkgJson.dependencies,
+  );
+  if (removed.length > 0) {
+    removed.forEach((name) => delete pkgJson.dependencies[name]);
+    await writeJsonFile(agentsPkgJsonPath, pkgJson);
+  }
+  return removed;
+}
+
+/**
+ * Removes the declarations of the given environment variables from `.env.example`.
+ *
+ * @param {string} envExamplePath - The path to the .env.example file
+ * @param {string[]} envVars - The environment variables to remove
+ * @returns {Promise<string[]>} The environment variables which were removed
+ */
+async function pruneEnvExampleKeys(
+  envExamplePath: string,
+  envVars: string[],
+): Promise<string[]> {
+  if (!(await fs.exists(envExamplePath))) return [];
+  const contents = await fs.promises.readFile(envExamplePath, "utf8");
+  const removed = new Set<string>();
+  const lines = contents.split("\n").filter((line) => {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)=/);
+    if (match && envVars.includes(match[1])) {
+      removed.add(match[1]);
+      return false;
+    }
+    return true;
+  });
+  if (removed.size > 0) {
+    await fs.promises.writeFile(envExamplePath, lines.join("\n"));
+  }
+  return Array.from(removed);
+}
+
+/**
+ * Removes prebuilt agents from an existing project. This deletes the agent
+ * directories, unregisters their graphs, and prunes the dependencies and
+ * environment variables no remaining agent needs.
+ *
+ * @param {string[]} names - The IDs or aliases of the agents to remove
+ * @param {AgentManifest[]} manifests - All available prebuilt agents
+ * @param {string} cwd - The directory the command was run from
+ * @param {object} options - Additional options
+ * @param {boolean} options.force - Delete modified agents without asking for confirmation
+ */
+export async function removeAgents(
+  names: string[],
+  manifests: AgentManifest[],
+  cwd: string,
+  options: { force?: boolean } = {},
+): Promise<void> {
+  const agents = resolveAgentManifests(manifests, names);
+
+  const rootDir = await findProjectRoot(cwd);
+  const paths = getProjectPaths(rootDir);
+  console.log(`Removing agents from: ${chalk.green(rootDir)}\n`);
+
+  // Agents were generated for the providers, and with the variables, the
+  // project was created with
+  const lock = await readTemplateLock(rootDir);
+  const selection = getProviderSelection(lock?.answers ?? {});
+  const installedAgents = await getInstalledAgents(rootDir, manifests);
+  const variables = lock
+    ? getTemplateVariables(
+        { ...lock.answers, autoInstallDeps: false },
+        installedAgents,
+      )
+    : {};
+  let hasModifications = false;
+  for (const agent of agents) {
+    const agentDir = path.join(paths.agentsSrcDir, agent.id);
+    if (!(await fs.exists(agentDir))) continue;
+    const modifications = await findAgentModifications(
+      agent,
+      agentDir,
+      selection,
+      variables,
+    );
+    if (
+      Object.keys(modifications.modified).length > 0 ||
+      modifications.added.length > 0
+    ) {
+      hasModifications = true;
+      printAgentModifications(agent, modifications);
+    }
+  }
+
+  if (hasModifications && !options.force) {
+    const confirmResponse = await confirm({
+      message: "Your changes will be lost. Delete the modified agents anyway?",
+      initialValue: false,
+    });
+    if (isCancel(confirmResponse) || !confirmResponse) {
+      console.log("Operation cancelled, nothing was removed.");
+      return;
+    }
+  }
+
+  // Everything the remaining agents still need must be kept, for the
+  // providers the project was created with
+  const remainingAgents = installedAgents
+    .filter((agent) => !agents.includes(agent))
+    .map((agent) => selectAgentProviders(agent, selection));
+  const removedAgents = agents.map((agent) =>
+    selectAgentProviders(agent, selection),
+  );
+  const keptDependencies = getAgentDependencies(remainingAgents);
+  const keptEnvVars = getAgentEnvVars(remainingAgents);
+  const unusedDependencies = Object.keys(
+    getAgentDependencies(removedAgents),
+  ).filter((name) => !(name in keptDependencies));
+  const unusedEnvVars = getAgentEnvVars(removedAgents).filter(
+    (envVar) => !keptEnvVars.includes(envVar),
+  );
+
+  for (const agent of agents) {
+    const agentDir = path.join(paths.agentsSrcDir, agent.id);
+    if (await fs.exists(agentDir)) {
+      await fs.remove(agentDir);
+      console.log(`${chalk.green("✓")} Removed ${chalk.cyan(agent.id)}`);
+    } else {
+      console.log(
+        `${chalk.yellow("!")} apps/agents/src/${agent.id} does not exist, cleaning up its configuration`,
+      );
+    }
+  }
+
+  const [graphs, dependencies, envVars] = await Promise.all([
+    unregisterAgentGraphs(paths.langGraphConfigPath, agents),
+    pruneAgentDependencies(paths.agentsPkgJsonPath, unusedDependencies),
+    pruneEnvExampleKeys(paths.envExamplePath, unusedEnvVars),
+  ]);
+
+  if (graphs.length > 0) {
+    console.log(`\nUnregistered graphs: ${chalk.cyan(graphs.join(", "))}`);
+  }
+  if (dependencies.length > 0) {
+    console.log(`Removed dependencies: ${chalk.cyan(dependencies.join(", "))}`);
+  }
+  if (envVars.length > 0) {
+    console.log(`Removed from .env.example: ${chalk.cyan(envVars.join(", "))}`);
+  }
+
+  if (dependencies.length > 0) {
+    const packageManager = await getProjectPackageManager(rootDir);
+    console.log(`
+To update your lockfile, run:
+  ${chalk.cyan(`${packageManager} install`)}`);
+  }
+}
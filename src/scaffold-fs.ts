@@ -0,0 +1,102 @@
+import path from "path";
+import fs from "fs-extra";
+
+/**
+ * The file operations the scaffolding pipeline performs. Every step writes
+ * through this interface, so the whole pipeline can run against either the
+ * real disk, or an in-memory filesystem for dry runs.
+ */
+export interface ScaffoldFs {
+  readFile(filePath: string): Promise<string>;
+  writeFile(
+    filePath: string,
+    contents: string,
+    options?: { mode?: number },
+  ): Promise<void>;
+  exists(filePath: string): Promise<boolean>;
+  mkdir(dirPath: string): Promise<void>;
+  /**
+   * Recursively copies a directory from the real disk into the filesystem.
+   */
+  copy(
+    src: string,
+    dest: string,
+    options?: { filter?: (src: string) => boolean },
+  ): Promise<void>;
+}
+
+/**
+ * An in-memory filesystem which records every file written to it.
+ */
+export interface VirtualFs extends ScaffoldFs {
+  /**
+   * The contents of every file written, keyed by absolute path.
+   */
+  files: Map<string, Buffer>;
+}
+
+/**
+ * Creates a filesystem which reads from, and writes to the real disk.
+ */
+export function createDiskFs(): ScaffoldFs {
+  return {
+    readFile: (filePath) => fs.promises.readFile(filePath, "utf8"),
+    writeFile: (filePath, contents, options) =>
+      fs.promises.writeFile(filePath, contents, { mode: options?.mode }),
+    exists: (filePath) => fs.exists(filePath),
+    mkdir: async (dirPath) => {
+      await fs.mkdir(dirPath, { recursive: true });
+    },
+    copy: (src, dest, options) => fs.copy(src, dest, options),
+  };
+}
+
+/**
+ * Creates an in-memory filesystem. Files which have not been written are
+ * read from the real disk, so templates can be copied into it as usual.
+ */
+export function createVirtualFs(): VirtualFs {
+  const files = new Map<string, Buffer>();
+  const dirs = new Set<string>();
+
+  const copyFromDisk = async (
+    src: string,
+    dest: string,
+    filter?: (src: string) => boolean,
+  ): Promise<void> => {
+    if (filter && !filter(src)) return;
+    const stat = await fs.promises.stat(src);
+    if (stat.isDirectory()) {
+      dirs.add(path.resolve(dest));
+      for (const entry of await fs.promises.readdir(src)) {
+        await copyFromDisk(
+          path.join(src, entry),
+          path.join(dest, entry),
+          filter,
+        );
+      }
+    } else {
+      files.set(path.resolve(dest), await fs.promises.readFile(src));
+    }
+  };
+
+  return {
+    files,
+    readFile: async (filePath) => {
+      const contents = files.get(path.resolve(filePath));
+      if (contents) return contents.toString("utf8");
+      return fs.promises.readFile(filePath, "utf8");
+    },
+    writeFile: async (filePath, contents) => {
+      files.set(path.resolve(filePath), Buffer.from(contents, "utf8"));
+    },
+    exists: async (filePath) => {
+      const resolved = path.resolve(filePath);
+      return files.has(resolved) || dirs.has(resolved) || fs.exists(resolved);
+    },
+    mkdir: async (dirPath) => {
+      dirs.add(path.resolve(dirPath));
+    },
+    copy: (src, dest, options) => copyFromDisk(src, dest, options?.filter),
+  };
+}
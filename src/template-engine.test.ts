@@ -0,0 +1,121 @@
+import { describe, expect, it } from "@jest/globals";
+import { renderTemplate } from "./template-engine.js";
+
+describe("renderTemplate", () => {
+  it("replaces placeholders with the values of their variables", () => {
+    expect(
+      renderTemplate('const id = "%%assistantId%%"; // %%assistantId%%', {
+        variables: { assistantId: "agent" },
+      }),
+    ).toBe('const id = "agent"; // agent');
+  });
+
+  it("keeps text which only looks like a placeholder", () => {
+    expect(renderTemplate("{question} %% 100%", { variables: {} })).toBe(
+      "{question} %% 100%",
+    );
+  });
+
+  it("throws for placeholders of unknown variables", () => {
+    expect(() => renderTemplate("%%missing%%", { variables: {} })).toThrow(
+      'Unknown template variable "missing"',
+    );
+  });
+
+  it("keeps blocks whose condition holds, without their comments", () => {
+    const template = [
+      "start",
+      "// @if framework=vite,nextjs",
+      "web",
+      "// @endif",
+      "# @if framework=nextjs",
+      "next",
+      "# @endif",
+      "end",
+    ].join("\n");
+    expect(renderTemplate(template, { variables: { framework: "vite" } })).toBe(
+      "start\nweb\nend",
+    );
+  });
+
+  it("supports HTML and JSX comments", () => {
+    const template = [
+      "<!-- @if layout=full -->",
+      "html",
+      "<!-- @endif -->",
+      "{/* @if layout=web-only */}",
+      "jsx",
+      "{/* @endif */}",
+    ].join("\n");
+    expect(renderTemplate(template, { variables: { layout: "full" } })).toBe(
+      "html",
+    );
+  });
+
+  it("keeps blocks of choices with any of their values still available", () => {
+    const template = [
+      "// @if vectorStore=pinecone",
+      "pinecone",
+      "// @endif",
+      "// @if vectorStore=mongodb",
+      "mongodb",
+      "// @endif",
+    ].join("\n");
+    expect(
+      renderTemplate(template, {
+        variables: {},
+        choices: { vectorStore: ["elastic", "pinecone"] },
+      }),
+    ).toBe("pinecone");
+  });
+
+  it("removes nested blocks along with the blocks around them", () => {
+    const template = [
+      "// @if framework=vite",
+      "vite",
+      "// @if modelProvider=openai",
+      "openai",
+      "// @endif",
+      "// @if modelProvider=anthropic",
+      "anthropic",
+      "// @endif",
+      "// @endif",
+      "end",
+    ].join("\n");
+    expect(
+      renderTemplate(template, {
+        variables: { framework: "vite", modelProvider: "openai" },
+      }),
+    ).toBe("vite\nopenai\nend");
+    expect(
+      renderTemplate(template, {
+        variables: { framework: "nextjs", modelProvider: "openai" },
+      }),
+    ).toBe("end");
+  });
+
+  it("collapses the blank lines removed blocks leave behind", () => {
+    const template = ["a", "", "// @if x=1", "b", "// @endif", "", "c"].join(
+      "\n",
+    );
+    expect(renderTemplate(template, { variables: { x: "2" } })).toBe("a\n\nc");
+  });
+
+  it("throws for conditions on unknown variables", () => {
+    expect(() =>
+      renderTemplate("a\n// @if missing=1\nb\n// @endif", { variables: {} }),
+    ).toThrow('Unknown template variable "missing" on line 2');
+  });
+
+  it("throws for blocks without an @endif", () => {
+    expect(() =>
+      renderTemplate("// @if x=1\nb", { variables: { x: "1" } }),
+    ).toThrow("Missing @endif at the end of the file");
+  });
+
+  it("throws for an @endif without a block", () => {
+    expect(() => renderTemplate("a\n// @endif", { variables: {} })).toThrow(
+      "Unexpected @endif on line 2",
+    );
+  });
+});
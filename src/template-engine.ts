@@ -0,0 +1,170 @@
+import path from "path";
+import { listFiles } from "./project.js";
+import { ScaffoldFs } from "./scaffold-fs.js";
+
+/**
+ * The values templates can reference, keyed by variable name.
+ */
+export type TemplateVariables = Record<string, string>;
+
+/**
+ * Everything a template is rendered with.
+ */
+export interface TemplateContext {
+  /**
+   * The values of the `%%name%%` placeholders. Conditional blocks can test
+   * them too, e.g. `// @if framework=vite`.
+   */
+  variables: TemplateVariables;
+  /**
+   * Choices which may still have several values, keyed by name, e.g. the
+   * vector stores an agent is generated for. A conditional block testing a
+   * choice is kept if any of its values are still available.
+   * @default {}
+   */
+  choices?: Record<string, string[]>;
+}
+
+/**
+ * The extensions of the template files which are rendered. Every other file,
+ * e.g. images, is copied as is.
+ */
+const RENDERED_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".js",
+  ".mjs",
+  ".cjs",
+  ".json",
+  ".md",
+  ".html",
+  ".example",
+  ".yaml",
+  ".yml",
+];
+
+/**
+ * Matches a variable placeholder, e.g. `%%assistantId%%`. The delimiters
+ * keep templates valid in every language they are written in, including
+ * JSX text, and do not collide with the `{variable}` syntax of prompts.
+ */
+const PLACEHOLDER = /%%(\w+)%%/g;
+
+/**
+ * Matches the comment which starts a conditional block, e.g.
+ * `// @if vectorStore=elastic,elastic-local`. `#`, HTML and JSX comments
+ * are supported too, for files which have no `//` comments.
+ */
+const BLOCK_START =
+  /^\s*(?:\/\/|#|<!--|\{\/\*)\s*@if (\w+)=([\w.,-]+)\s*(?:-->|\*\/\})?\s*$/;
+
+/**
+ * Matches the comment which ends a conditional block.
+ */
+const BLOCK_END = /^\s*(?:\/\/|#|<!--|\{\/\*)\s*@endif\s*(?:-->|\*\/\})?\s*$/;
+
+function isDeclared(record: Record<string, unknown>, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, name);
+}
+
+/**
+ * Renders a template: removes the conditional blocks whose condition does
+ * not hold, along with the block comments themselves, and replaces every
+ * placeholder with the value of its variable. Blocks can be nested.
+ *
+ * @param {string} contents - The contents of the template
+ * @param {TemplateContext} context - The variables and choices to render with
+ * @returns {string} The rendered contents
+ * @throws {Error} If the template references a variable which is not declared, or its blocks are not balanced
+ */
+export function renderTemplate(
+  contents: string,
+  context: TemplateContext,
+): string {
+  const { variables, choices = {} } = context;
+  const lines: string[] = [];
+  // Whether the lines of each enclosing block are kept
+  const blocks: boolean[] = [];
+  let removedBlock = false;
+
+  contents.split("\n").forEach((line, index) => {
+    const start = line.match(BLOCK_START);
+    if (start) {
+      const [, name, values] = start;
+      let holds: boolean;
+      if (isDeclared(variables, name)) {
+        holds = values.split(",").includes(variables[name]);
+      } else if (isDeclared(choices, name)) {
+        holds = values
+          .split(",")
+          .some((value) => choices[name].includes(value));
+      } else {
+        throw new Error(
+          `Unknown template variable "${name}" on line ${index + 1}`,
+        );
+      }
+      blocks.push(holds);
+      removedBlock ||= !holds;
+      return;
+    }
+    if (BLOCK_END.test(line)) {
+      if (blocks.pop() === undefined) {
+        throw new Error(`Unexpected @endif on line ${index + 1}`);
+      }
+      return;
+    }
+    if (blocks.every(Boolean)) {
+      lines.push(line);
+    }
+  });
+  if (blocks.length > 0) {
+    throw new Error("Missing @endif at the end of the file");
+  }
+
+  let rendered = lines.join("\n");
+  if (removedBlock) {
+    // Removed blocks leave the blank lines around them behind
+    rendered = rendered.replace(/\n{3,}/g, "\n\n");
+  }
+  return rendered.replace(PLACEHOLDER, (_, name: string) => {
+    if (!isDeclared(variables, name)) {
+      throw new Error(`Unknown template variable "${name}"`);
+    }
+    return variables[name];
+  });
+}
+
+/**
+ * Renders the files of a template after it has been copied. Only files
+ * which changed are written again.
+ *
+ * @param {string} templateDir - The directory the template was copied from
+ * @param {string} destDir - The directory the template was copied to
+ * @param {TemplateContext} context - The variables and choices to render with
+ * @param {ScaffoldFs} scaffoldFs - The filesystem the template was copied into
+ * @param {(file: string) => boolean} filter - Which files were copied, relative to the template directory
+ */
+export async function renderTemplateFiles(
+  templateDir: string,
+  destDir: string,
+  context: TemplateContext,
+  scaffoldFs: ScaffoldFs,
+  filter: (file: string) => boolean = () => true,
+): Promise<void> {
+  for (const file of await listFiles(templateDir)) {
+    if (!RENDERED_EXTENSIONS.includes(path.extname(file)) || !filter(file)) {
+      continue;
+    }
+    const filePath = path.join(destDir, file);
+    const contents = await scaffoldFs.readFile(filePath);
+    let rendered: string;
+    try {
+      rendered = renderTemplate(contents, context);
+    } catch (e) {
+      throw new Error(`Failed to render ${file}: ${(e as Error).message}`);
+    }
+    if (rendered !== contents) {
+      await scaffoldFs.writeFile(filePath, rendered);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import {
+  TEMPLATE_LOCK_FILE,
+  createTemplateLock,
+  hashContents,
+  readTemplateLock,
+  writeTemplateLock,
+} from "./template-lock.js";
+
+const ANSWERS = {
+  projectName: "my-app",
+  packageManager: "pnpm" as const,
+  framework: "vite" as const,
+  agents: ["react-agent"],
+  modelProvider: "openai" as const,
+  pin: true,
+};
+
+describe("template lock", () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "template-lock-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootDir);
+  });
+
+  it("records the hash of every template file", () => {
+    const lock = createTemplateLock(
+      "1.0.0",
+      ANSWERS,
+      new Map([
+        ["package.json", Buffer.from("{}\n")],
+        [".env", Buffer.from("SECRET=1\n")],
+        [TEMPLATE_LOCK_FILE, Buffer.from("{}\n")],
+      ]),
+    );
+    expect(lock.version).toBe("1.0.0");
+    expect(lock.answers).toMatchObject(ANSWERS);
+    expect(lock.files).toEqual({
+      "package.json": hashContents(Buffer.from("{}\n")),
+    });
+  });
+
+  it("reads back the lock it wrote", async () => {
+    const lock = createTemplateLock(
+      "1.0.0",
+      ANSWERS,
+      new Map([
+        ["apps/agents/src/react-agent/graph.ts", Buffer.from("graph\n")],
+        ["package.json", Buffer.from("{}\n")],
+      ]),
+    );
+    await writeTemplateLock(rootDir, lock);
+    expect(await readTemplateLock(rootDir)).toEqual(
+      JSON.parse(JSON.stringify(lock)),
+    );
+  });
+
+  it("returns undefined for projects without a lock", async () => {
+    expect(await readTemplateLock(rootDir)).toBeUndefined();
+  });
+
+  it("throws for a lock which is not valid JSON", async () => {
+    await fs.writeFile(path.join(rootDir, TEMPLATE_LOCK_FILE), "{");
+    await expect(readTemplateLock(rootDir)).rejects.toThrow(
+      `Failed to read ${TEMPLATE_LOCK_FILE}`,
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import path from "path";
+import fs from "fs-extra";
+import { createHash } from "crypto";
+import { fileURLToPath } from "url";
+import { readJsonFile, writeJsonFile } from "./project.js";
+import {
+  EmbeddingsProvider,
+  Framework,
+  Layout,
+  ModelProvider,
+  PackageManager,
+  VectorStore,
+} from "./types.js";
+
+// Get the directory name of the current module
+const __filename: string = fileURLToPath(import.meta.url);
+const __dirname: string = path.dirname(__filename);
+
+/**
+ * The file inside a generated project which records the templates it was
+ * generated from, so it can be upgraded later.
+ */
+export const TEMPLATE_LOCK_FILE = ".agent-chat-app.json";
+
+/**
+ * Generated files which belong to the user rather than the templates, and
+ * are never upgraded. `.env` contains the user's secrets.
+ */
+const UNTRACKED_FILES = [TEMPLATE_LOCK_FILE, ".env"];
+
+/**
+ * The contents of the template lock file.
+ */
+export interface TemplateLock {
+  /**
+   * The version of create-agent-chat-app the files were generated with.
+   */
+  version: string;
+  /**
+   * The configuration needed to generate the same files again.
+   */
+  answers: {
+    projectName: string;
+    scope?: string;
+    packageManager: PackageManager;
+    framework: Framework;
+    layout?: Layout;
+    agents: string[];
+    modelProvider?: ModelProvider;
+    vectorStore?: VectorStore;
+    embeddings?: EmbeddingsProvider;
+    webTemplate?: string;
+    agentTemplates?: string[];
+    plugins?: string[];
+    appTitle?: string;
+    langGraphPort?: number;
+    docker?: boolean;
+    pin?: boolean;
+  };
+  /**
+   * The SHA-256 hash of every generated file, keyed by its path relative to
+   * the project root.
+   */
+  files: Record<string, string>;
+}
+
+/**
+ * Returns the version of create-agent-chat-app which is running.
+ *
+ * @returns {Promise<string>} The version from its package.json
+ */
+export async function getCliVersion(): Promise<string> {
+  const pkgJson = await readJsonFile(path.join(__dirname, "package.json"));
+  return pkgJson.version;
+}
+
+/**
+ * Returns the SHA-256 hash of a file's contents.
+ *
+ * @param {Buffer} contents - The contents of the file
+ * @returns {string} The hex encoded hash
+ */
+export function hashContents(contents: Buffer): string {
+  return createHash("sha256").update(contents).digest("hex");
+}
+
+/**
+ * Creates the template lock for a set of generated files.
+ *
+ * @param {string} version - The version the files were generated with
+ * @param {TemplateLock["answers"]} answers - The configuration the files were generated from
+ * @param {Map<string, Buffer>} files - The generated files, keyed by path relative to the project root
+ * @returns {TemplateLock} The template lock
+ */
+export function createTemplateLock(
+  version: string,
+  answers: TemplateLock["answers"],
+  files: Map<string, Buffer>,
+): TemplateLock {
+  const hashes: Record<string, string> = {};
+  for (const file of Array.from(files.keys()).sort()) {
+    if (UNTRACKED_FILES.includes(file)) continue;
+    hashes[file] = hashContents(files.get(file) as Buffer);
+  }
+  return {
+    version,
+    answers: {
+      projectName: answers.projectName,
+      scope: answers.scope,
+      packageManager: answers.packageManager,
+      framework: answers.framework,
+      layout: answers.layout,
+      agents: answers.agents,
+      modelProvider: answers.modelProvider,
+      vectorStore: answers.vectorStore,
+      embeddings: answers.embeddings,
+      webTemplate: answers.webTemplate,
+      agentTemplates: answers.agentTemplates,
+      plugins: answers.plugins,
+      appTitle: answers.appTitle,
+      langGraphPort: answers.langGraphPort,
+      docker: answers.docker,
+      pin: answers.pin,
+    },
+    files: hashes,
+  };
+}
+
+/**
+ * Reads the template lock of a project.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @returns {Promise<TemplateLock | undefined>} The template lock, or undefined if the project does not have one
+ */
+export async function readTemplateLock(
+  rootDir: string,
+): Promise<TemplateLock | undefined> {
+  const lockPath = path.join(rootDir, TEMPLATE_LOCK_FILE);
+  if (!(await fs.exists(lockPath))) return undefined;
+  try {
+    return (await readJsonFile(lockPath)) as TemplateLock;
+  } catch (e) {
+    throw new Error(
+      `Failed to read ${TEMPLATE_LOCK_FILE}: ${(e as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Writes the template lock of a project.
+ *
+ * @param {string} rootDir - The root directory of the project
+ * @param {TemplateLock} lock - The template lock
+ */
+export async function writeTemplateLock(
+  rootDir: string,
+  lock: TemplateLock,
+): Promise<void> {
+  await writeJsonFile(path.join(rootDir, TEMPLATE_LOCK_FILE), lock);
+}
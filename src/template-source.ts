@@ -0,0 +1,189 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { execFileSync } from "child_process";
+import {
+  AGENT_MANIFEST_FILE,
+  AgentManifest,
+  loadAgentManifest,
+} from "./agents.js";
+import { readJsonFile } from "./project.js";
+import { Framework } from "./types.js";
+
+/**
+ * Directories which are never copied from a custom template: dependencies,
+ * build output, and version control.
+ */
+const IGNORED_TEMPLATE_DIRS = [
+  "node_modules",
+  ".git",
+  ".next",
+  ".turbo",
+  "dist",
+];
+
+/**
+ * A custom template, copied into a temporary directory, so local forks
+ * and tarballs are handled the same way.
+ */
+export interface TemplateSource {
+  /**
+   * The path the template was given as, for error messages.
+   */
+  source: string;
+  /**
+   * The temporary directory containing the template files.
+   */
+  dir: string;
+  /**
+   * Removes the temporary directory.
+   */
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * Copies a custom template from a local directory, or extracts it from a
+ * local `.tgz` file, e.g. one created with `npm pack`. Tarballs which
+ * contain a single directory, like the `package` directory `npm pack`
+ * creates, are unwrapped.
+ *
+ * @param {string} source - The path to the directory or tarball
+ * @returns {Promise<TemplateSource>} The template, which must be cleaned up once it is no longer needed
+ * @throws {Error} If the path does not exist, or is neither a directory nor a tarball
+ */
+export async function resolveTemplateSource(
+  source: string,
+): Promise<TemplateSource> {
+  const sourcePath = path.resolve(source);
+  if (!(await fs.exists(sourcePath))) {
+    throw new Error(`Template ${source} does not exist`);
+  }
+  const isDirectory = (await fs.stat(sourcePath)).isDirectory();
+  if (!isDirectory && !/\.(tgz|tar\.gz)$/.test(sourcePath)) {
+    throw new Error(`Template ${source} must be a directory, or a .tgz file`);
+  }
+
+  const tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), "create-agent-chat-app-template-"),
+  );
+  const cleanup = () => fs.remove(tempDir);
+  try {
+    if (isDirectory) {
+      await fs.copy(sourcePath, tempDir, {
+        filter: (src) => !IGNORED_TEMPLATE_DIRS.includes(path.basename(src)),
+      });
+      return { source, dir: tempDir, cleanup };
+    }
+
+    execFileSync("tar", ["-xzf", sourcePath, "-C", tempDir], {
+      stdio: "ignore",
+    });
+    const entries = await fs.promises.readdir(tempDir, { withFileTypes: true });
+    const dir =
+      entries.length === 1 && entries[0].isDirectory()
+        ? path.join(tempDir, entries[0].name)
+        : tempDir;
+    return { source, dir, cleanup };
+  } catch (e) {
+    await cleanup();
+    throw new Error(
+      `Failed to read template ${source}: ${(e as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Checks that a custom web app template has the structure the bundled
+ * framework templates have: a package.json for the `web` workspace, with the
+ * `dev` and `build` scripts the root scripts run, and a Next.js or Vite
+ * dependency.
+ *
+ * @param {TemplateSource} template - The web app template
+ * @returns {Promise<Framework>} The framework of the web app
+ * @throws {Error} If the template is not a valid web app template
+ */
+export async function validateWebTemplate(
+  template: TemplateSource,
+): Promise<Framework> {
+  const fail = (problems: string[]): never => {
+    throw new Error(
+      `Invalid web template ${template.source}:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+    );
+  };
+
+  const pkgJsonPath = path.join(template.dir, "package.json");
+  if (!(await fs.exists(pkgJsonPath))) {
+    return fail(["package.json is missing"]);
+  }
+  let pkgJson: Record<string, any>;
+  try {
+    pkgJson = await readJsonFile(pkgJsonPath);
+  } catch (e) {
+    return fail([`Failed to parse package.json: ${(e as Error).message}`]);
+  }
+
+  const problems: string[] = [];
+  if (pkgJson.name !== "web") {
+    problems.push(
+      `The "name" in package.json must be "web", which the root scripts filter on`,
+    );
+  }
+  for (const script of ["dev", "build"]) {
+    if (typeof pkgJson.scripts?.[script] !== "string") {
+      problems.push(`package.json must have a "${script}" script`);
+    }
+  }
+  const dependencies = {
+    ...pkgJson.dependencies,
+    ...pkgJson.devDependencies,
+  };
+  const framework: Framework | undefined =
+    "next" in dependencies
+      ? "nextjs"
+      : "vite" in dependencies
+        ? "vite"
+        : undefined;
+  if (!framework) {
+    problems.push("package.json must depend on next, or vite");
+  }
+  if (problems.length > 0) {
+    fail(problems);
+  }
+  return framework as Framework;
+}
+
+/**
+ * Checks that a custom agent template has the structure the bundled agent
+ * templates have: a valid agent manifest, and the files of every graph it
+ * registers.
+ *
+ * @param {TemplateSource} template - The agent template
+ * @returns {Promise<AgentManifest>} The manifest of the agent
+ * @throws {Error} If the template is not a valid agent template
+ */
+export async function validateAgentTemplate(
+  template: TemplateSource,
+): Promise<AgentManifest> {
+  const fail = (message: string): never => {
+    throw new Error(
+      `Invalid agent template ${template.source}: ${message.split(template.dir).join(template.source)}`,
+    );
+  };
+
+  if (!(await fs.exists(path.join(template.dir, AGENT_MANIFEST_FILE)))) {
+    return fail(`${AGENT_MANIFEST_FILE} is missing`);
+  }
+  let manifest: AgentManifest;
+  try {
+    manifest = await loadAgentManifest(template.dir);
+  } catch (e) {
+    return fail((e as Error).message);
+  }
+  for (const [graphId, graphPath] of Object.entries(manifest.graphs)) {
+    const [file] = graphPath.split(":");
+    if (!(await fs.exists(path.join(template.dir, file)))) {
+      fail(`The file of graph ${graphId}, ${file}, is missing`);
+    }
+  }
+  return manifest;
+}
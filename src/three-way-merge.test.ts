@@ -0,0 +1,185 @@
+import { describe, expect, it } from "@jest/globals";
+import { hashContents } from "./template-lock.js";
+import {
+  TemplateFiles,
+  mergeTemplateFiles,
+  mergeThreeWay,
+} from "./three-way-merge.js";
+
+const LABELS = { yours: "yours", theirs: "template" };
+
+describe("mergeThreeWay", () => {
+  it("combines changes which do not overlap", () => {
+    const result = mergeThreeWay(
+      "a\nb\nc\nd\n",
+      "A\nb\nc\nd\n",
+      "a\nb\nc\nD\n",
+      LABELS,
+    );
+    expect(result).toEqual({ contents: "A\nb\nc\nD\n", conflicts: 0 });
+  });
+
+  it("keeps a change made on one side only", () => {
+    expect(mergeThreeWay("a\nb\n", "a\nb\nc\n", "a\nb\n", LABELS)).toEqual({
+      contents: "a\nb\nc\n",
+      conflicts: 0,
+    });
+    expect(mergeThreeWay("a\nb\n", "a\nb\n", "a\nB\n", LABELS)).toEqual({
+      contents: "a\nB\n",
+      conflicts: 0,
+    });
+  });
+
+  it("does not conflict when both sides make the same change", () => {
+    const result = mergeThreeWay("a\nb\n", "a\nB\n", "a\nB\n", LABELS);
+    expect(result).toEqual({ contents: "a\nB\n", conflicts: 0 });
+  });
+
+  it("marks overlapping changes as conflicts", () => {
+    const result = mergeThreeWay(
+      "a\nb\nc\n",
+      "a\nyours\nc\n",
+      "a\ntheirs\nc\n",
+      LABELS,
+    );
+    expect(result).toEqual({
+      contents:
+        "a\n<<<<<<< yours\nyours\n=======\ntheirs\n>>>>>>> template\nc\n",
+      conflicts: 1,
+    });
+  });
+
+  it("keeps conflict markers on their own line without a trailing newline", () => {
+    const result = mergeThreeWay("a\nb", "a\nyours", "a\ntheirs", LABELS);
+    expect(result).toEqual({
+      contents: "a\n<<<<<<< yours\nyours\n=======\ntheirs\n>>>>>>> template\n",
+      conflicts: 1,
+    });
+  });
+});
+
+function createFiles(
+  files: Partial<Record<keyof TemplateFiles, Record<string, string>>>,
+): TemplateFiles {
+  const toMap = (contents: Record<string, string> = {}) =>
+    new Map(
+      Object.entries(contents).map(([file, text]) => [file, Buffer.from(text)]),
+    );
+  const original = toMap(files.original);
+  return {
+    recorded: Object.fromEntries(
+      Array.from(original).map(([file, contents]) => [
+        file,
+        hashContents(contents),
+      ]),
+    ),
+    original,
+    current: toMap(files.current),
+    next: toMap(files.next),
+  };
+}
+
+describe("mergeTemplateFiles", () => {
+  it("replaces files the user has not changed", () => {
+    const { summary, writes } = mergeTemplateFiles(
+      createFiles({
+        original: { "a.ts": "a\n" },
+        current: { "a.ts": "a\n" },
+        next: { "a.ts": "A\n" },
+      }),
+      "template",
+    );
+    expect(summary.updated).toEqual(["a.ts"]);
+    expect(writes.get("a.ts")?.toString()).toBe("A\n");
+  });
+
+  it("keeps files only the user changed", () => {
+    const { summary, writes } = mergeTemplateFiles(
+      createFiles({
+        original: { "a.ts": "a\n" },
+        current: { "a.ts": "yours\n" },
+        next: { "a.ts": "a\n" },
+      }),
+      "template",
+    );
+    expect(Object.values(summary).flat()).toEqual([]);
+    expect(writes.size).toBe(0);
+  });
+
+  it("merges files both sides changed", () => {
+    const { summary, writes } = mergeTemplateFiles(
+      createFiles({
+        original: { "a.ts": "a\nb\nc\n" },
+        current: { "a.ts": "A\nb\nc\n" },
+        next: { "a.ts": "a\nb\nC\n" },
+      }),
+      "template",
+    );
+    expect(summary.merged).toEqual(["a.ts"]);
+    expect(writes.get("a.ts")?.toString()).toBe("A\nb\nC\n");
+  });
+
+  it("reports files with conflict markers as conflicts", () => {
+    const { summary, writes } = mergeTemplateFiles(
+      createFiles({
+        original: { "a.ts": "a\n" },
+        current: { "a.ts": "yours\n" },
+        next: { "a.ts": "theirs\n" },
+      }),
+      "template 1.0.0",
+    );
+    expect(summary.conflicts).toEqual(["a.ts"]);
+    expect(writes.get("a.ts")?.toString()).toContain(">>>>>>> template 1.0.0");
+  });
+
+  it("adds new template files, and keeps files the user deleted deleted", () => {
+    const { summary, writes } = mergeTemplateFiles(
+      createFiles({
+        original: { "deleted.ts": "a\n" },
+        next: { "deleted.ts": "A\n", "new.ts": "new\n" },
+      }),
+      "template",
+    );
+    expect(summary.added).toEqual(["new.ts"]);
+    expect(Array.from(writes.keys())).toEqual(["new.ts"]);
+  });
+
+  it("removes files deleted from the template, unless the user changed them", () => {
+    const { summary, writes } = mergeTemplateFiles(
+      createFiles({
+        original: { "a.ts": "a\n", "b.ts": "b\n" },
+        current: { "a.ts": "a\n", "b.ts": "yours\n" },
+      }),
+      "template",
+    );
+    expect(summary.removed).toEqual(["a.ts"]);
+    expect(Array.from(writes)).toEqual([["a.ts", undefined]]);
+  });
+
+  it("writes a .new file for changed binary files", () => {
+    const { summary, writes } = mergeTemplateFiles(
+      createFiles({
+        original: { "a.png": "a\0" },
+        current: { "a.png": "yours\0" },
+        next: { "a.png": "theirs\0" },
+      }),
+      "template",
+    );
+    expect(summary.conflicts).toEqual(["a.png.new"]);
+    expect(writes.has("a.png")).toBe(false);
+    expect(writes.get("a.png.new")?.toString()).toBe("theirs\0");
+  });
+
+  it("writes a .new file when the original is not available", () => {
+    const files = createFiles({
+      original: { "a.ts": "a\n" },
+      current: { "a.ts": "yours\n" },
+      next: { "a.ts": "theirs\n" },
+    });
+    const { summary } = mergeTemplateFiles(
+      { ...files, original: new Map() },
+      "template",
+    );
+    expect(summary.conflicts).toEqual(["a.ts.new"]);
+  });
+});
@@ -0,0 +1,298 @@
+import { diffArrays } from "diff";
+import { hashContents } from "./template-lock.js";
+
+/**
+ * A change one side made to the original file: the original lines in
+ * `[start, end)` were replaced with `lines`.
+ */
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+  side: "yours" | "theirs";
+}
+
+/**
+ * The result of merging two versions of a file.
+ */
+export interface MergeResult {
+  contents: string;
+  /**
+   * The number of conflicting changes, which were marked in `contents`.
+   */
+  conflicts: number;
+}
+
+/**
+ * Splits a file into lines, keeping the line endings so the file can be
+ * joined back together unchanged.
+ */
+function splitLines(contents: string): string[] {
+  return contents === "" ? [] : contents.split(/(?<=\n)/);
+}
+
+function ensureTrailingNewline(lines: string[]): string[] {
+  const last = lines[lines.length - 1];
+  return last === undefined || last.endsWith("\n")
+    ? lines
+    : [...lines.slice(0, -1), `${last}\n`];
+}
+
+/**
+ * Returns the changes one side made to the original lines.
+ */
+function getHunks(
+  base: string[],
+  changed: string[],
+  side: Hunk["side"],
+): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let position = 0;
+  for (const change of diffArrays(base, changed)) {
+    if (!change.added && !change.removed) {
+      if (current) hunks.push(current);
+      current = undefined;
+      position += change.value.length;
+      continue;
+    }
+    current ??= { start: position, end: position, lines: [], side };
+    if (change.removed) {
+      position += change.value.length;
+      current.end = position;
+    } else {
+      current.lines.push(...change.value);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+/**
+ * Applies one side's changes to the original lines in `[start, end)`.
+ */
+function applyHunks(
+  base: string[],
+  hunks: Hunk[],
+  start: number,
+  end: number,
+): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+/**
+ * Merges the changes two sides made to the same original file, line by line.
+ * Changes which do not overlap are combined, and overlapping changes which
+ * differ are marked with git style conflict markers.
+ *
+ * @param {string} base - The original file
+ * @param {string} yours - The first changed version, e.g. the user's file
+ * @param {string} theirs - The second changed version, e.g. the new template
+ * @param {object} labels - The names shown next to the conflict markers
+ * @param {string} labels.yours - The name of the first version
+ * @param {string} labels.theirs - The name of the second version
+ * @returns {MergeResult} The merged file, and the number of conflicts
+ */
+export function mergeThreeWay(
+  base: string,
+  yours: string,
+  theirs: string,
+  labels: { yours: string; theirs: string },
+): MergeResult {
+  const baseLines = splitLines(base);
+  const hunks = [
+    ...getHunks(baseLines, splitLines(yours), "yours"),
+    ...getHunks(baseLines, splitLines(theirs), "theirs"),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  while (i < hunks.length) {
+    // Group the hunks which overlap, or touch, the same original lines
+    const group = [hunks[i]];
+    const start = hunks[i].start;
+    let end = hunks[i].end;
+    for (i += 1; i < hunks.length && hunks[i].start <= end; i += 1) {
+      group.push(hunks[i]);
+      end = Math.max(end, hunks[i].end);
+    }
+
+    merged.push(...baseLines.slice(position, start));
+    position = end;
+
+    const yoursHunks = group.filter((hunk) => hunk.side === "yours");
+    const theirsHunks = group.filter((hunk) => hunk.side === "theirs");
+    const yoursLines = applyHunks(baseLines, yoursHunks, start, end);
+    const theirsLines = applyHunks(baseLines, theirsHunks, start, end);
+    if (theirsHunks.length === 0) {
+      merged.push(...yoursLines);
+    } else if (
+      yoursHunks.length === 0 ||
+      yoursLines.join("") === theirsLines.join("")
+    ) {
+      merged.push(...theirsLines);
+    } else {
+      conflicts += 1;
+      merged.push(
+        `<<<<<<< ${labels.yours}\n`,
+        ...ensureTrailingNewline(yoursLines),
+        "=======\n",
+        ...ensureTrailingNewline(theirsLines),
+        `>>>>>>> ${labels.theirs}\n`,
+      );
+    }
+  }
+  merged.push(...baseLines.slice(position));
+
+  return { contents: merged.join(""), conflicts };
+}
+
+/**
+ * What happened to every template file during an upgrade. Every list
+ * contains file paths relative to the project root.
+ */
+export interface UpgradeSummary {
+  /**
+   * Files the user had not changed, which were replaced with the new template.
+   */
+  updated: string[];
+  /**
+   * Files which are new in the template.
+   */
+  added: string[];
+  /**
+   * Files the user had not changed, which were removed from the template.
+   */
+  removed: string[];
+  /**
+   * Files where the user's changes and the template changes were combined.
+   */
+  merged: string[];
+  /**
+   * Files with conflict markers, or a `.new` file next to them, which the
+   * user needs to resolve.
+   */
+  conflicts: string[];
+}
+
+/**
+ * The versions of every template file in a project, keyed by path relative
+ * to the project root.
+ */
+export interface TemplateFiles {
+  /**
+   * The hashes recorded in the template lock when the files were generated.
+   */
+  recorded: Record<string, string>;
+  /**
+   * The files as they were generated. Empty if they could not be generated
+   * again.
+   */
+  original: Map<string, Buffer>;
+  /**
+   * The files as they are in the project now. Deleted files are missing.
+   */
+  current: Map<string, Buffer>;
+  /**
+   * The files as the new templates generate them.
+   */
+  next: Map<string, Buffer>;
+}
+
+function isBinary(contents: Buffer): boolean {
+  return contents.includes(0);
+}
+
+/**
+ * Merges the template changes into every file of a project. Files the user
+ * has not changed are replaced or removed, files the user deleted stay
+ * deleted, and files both sides changed are merged three ways. When a file
+ * can not be merged, because it is binary or its original is not available,
+ * the new template is written next to it as a `.new` file.
+ *
+ * @param {TemplateFiles} files - The versions of every template file
+ * @param {string} label - The name of the new templates, shown next to conflict markers
+ * @returns {{ summary: UpgradeSummary; writes: Map<string, Buffer | undefined> }} What happened to every file, and the contents to write, where undefined contents delete the file
+ */
+export function mergeTemplateFiles(
+  files: TemplateFiles,
+  label: string,
+): { summary: UpgradeSummary; writes: Map<string, Buffer | undefined> } {
+  const summary: UpgradeSummary = {
+    updated: [],
+    added: [],
+    removed: [],
+    merged: [],
+    conflicts: [],
+  };
+  const writes = new Map<string, Buffer | undefined>();
+
+  const paths = new Set([...Object.keys(files.recorded), ...files.next.keys()]);
+  for (const file of Array.from(paths).sort()) {
+    const recordedHash = files.recorded[file];
+    const current = files.current.get(file);
+    const next = files.next.get(file);
+    const isUnchanged =
+      current !== undefined && hashContents(current) === recordedHash;
+
+    if (next === undefined) {
+      if (isUnchanged) {
+        writes.set(file, undefined);
+        summary.removed.push(file);
+      }
+      continue;
+    }
+    if (current === undefined) {
+      // Files the user deleted stay deleted
+      if (!recordedHash) {
+        writes.set(file, next);
+        summary.added.push(file);
+      }
+      continue;
+    }
+    if (current.equals(next) || hashContents(next) === recordedHash) {
+      continue;
+    }
+    if (isUnchanged) {
+      writes.set(file, next);
+      summary.updated.push(file);
+      continue;
+    }
+
+    // Both the user and the template changed the file. The original is only
+    // used if it matches what was recorded when the project was created.
+    const original = files.original.get(file);
+    if (
+      original !== undefined &&
+      hashContents(original) === recordedHash &&
+      ![original, current, next].some(isBinary)
+    ) {
+      const merge = mergeThreeWay(
+        original.toString("utf8"),
+        current.toString("utf8"),
+        next.toString("utf8"),
+        { yours: "yours", theirs: label },
+      );
+      writes.set(file, Buffer.from(merge.contents, "utf8"));
+      if (merge.conflicts > 0) {
+        summary.conflicts.push(file);
+      } else {
+        summary.merged.push(file);
+      }
+      continue;
+    }
+    writes.set(`${file}.new`, next);
+    summary.conflicts.push(`${file}.new`);
+  }
+
+  return { summary, writes };
+}
@@ -0,0 +1,166 @@
+export const PACKAGE_MANAGERS = ["npm", "pnpm", "yarn", "bun"] as const;
+export const FRAMEWORKS = ["nextjs", "vite"] as const;
+export const LAYOUTS = ["full", "agents-only", "web-only"] as const;
+export const CONFLICT_STRATEGIES = ["skip", "overwrite", "sidecar"] as const;
+export const MODEL_PROVIDERS = [
+  "anthropic",
+  "openai",
+  "google",
+  "ollama",
+] as const;
+export const VECTOR_STORES = [
+  "elastic",
+  "elastic-local",
+  "pinecone",
+  "mongodb",
+] as const;
+export const EMBEDDINGS_PROVIDERS = ["openai", "cohere"] as const;
+
+export type PackageManager = (typeof PACKAGE_MANAGERS)[number];
+export type Framework = (typeof FRAMEWORKS)[number];
+/**
+ * Which workspaces to generate: both the agents and the web app, only the
+ * LangGraph agents, or only the chat UI.
+ */
+export type Layout = (typeof LAYOUTS)[number];
+/**
+ * How to resolve a generated file which collides with an existing file:
+ * keep the existing file, replace it, or write the generated file next to it
+ * with a `.new` extension.
+ */
+export type ConflictStrategy = (typeof CONFLICT_STRATEGIES)[number];
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+export type VectorStore = (typeof VECTOR_STORES)[number];
+export type EmbeddingsProvider = (typeof EMBEDDINGS_PROVIDERS)[number];
+
+export interface ProjectAnswers {
+  /**
+   * The IDs of the prebuilt agents to include in the project.
+   * @default []
+   */
+  agents: string[];
+  /**
+   * @default "agent-chat-app"
+   */
+  projectName: string;
+  /**
+   * The directory to create the project in, relative to the current directory.
+   * It may already exist, e.g. `.` to scaffold into the current directory.
+   * @default projectName
+   */
+  directory?: string;
+  /**
+   * The npm scope of the workspaces, e.g. `@acme`. The `agents` and `web`
+   * workspaces are renamed to `@acme/agents` and `@acme/web`, and the turbo
+   * filters of their scripts are updated to match.
+   */
+  scope?: string;
+  /**
+   * @default "npm"
+   */
+  packageManager: PackageManager;
+  /**
+   * @default true
+   */
+  autoInstallDeps: boolean;
+  /**
+   * Install the dependencies from the package manager's cache, e.g. on
+   * air-gapped build machines with a warm cache. Only missing packages are
+   * fetched, except with Yarn 2 and later, whose network is disabled.
+   * @default false
+   */
+  offline?: boolean;
+  /**
+   * Replace the dependency ranges of the templates with the exact versions
+   * this release of the CLI was tested with.
+   * @default false
+   */
+  pin?: boolean;
+  /**
+   * @default "nextjs"
+   */
+  framework: Framework;
+  /**
+   * Which workspaces to generate. Agents-only projects have no `apps/web`,
+   * and web-only projects have no `apps/agents`, `langgraph.json` or agents.
+   * @default "full"
+   */
+  layout?: Layout;
+  /**
+   * The LLM provider the agents are generated for. It sets the default models
+   * in each agent's configuration, and the provider package and API key the
+   * agents need.
+   * @default "anthropic"
+   */
+  modelProvider?: ModelProvider;
+  /**
+   * The vector store the retrieval based agents are generated for. The code,
+   * dependencies and environment variables of the other vector stores are
+   * left out. Every vector store is kept if omitted.
+   */
+  vectorStore?: VectorStore;
+  /**
+   * The embeddings provider the retrieval based agents are generated for.
+   * Every embeddings provider is kept if omitted.
+   */
+  embeddings?: EmbeddingsProvider;
+  /**
+   * A local directory, or `.tgz` file, to generate the web app from instead
+   * of the bundled template of its framework. The framework must match the
+   * template's. Not allowed in agents-only projects.
+   */
+  webTemplate?: string;
+  /**
+   * Local directories, or `.tgz` files, containing custom agent templates.
+   * They are always included, in addition to the selected prebuilt agents,
+   * and replace prebuilt agents with the same ID. Not allowed in web-only
+   * projects.
+   * @default []
+   */
+  agentTemplates?: string[];
+  /**
+   * Local JavaScript modules which default export a plugin, run after the
+   * built-in plugins in the order they are given. See `Plugin`.
+   * @default []
+   */
+  plugins?: string[];
+  /**
+   * The title of the chat UI, shown in its header and the browser tab.
+   * @default "Agent Chat"
+   */
+  appTitle?: string;
+  /**
+   * The port the LangGraph development server listens on, which the web app
+   * connects to by default.
+   * @default 2024
+   */
+  langGraphPort?: number;
+  /**
+   * Generate a Dockerfile for the web app, and a compose file which runs it
+   * next to a self-hosted LangGraph server.
+   * @default false
+   */
+  docker?: boolean;
+  /**
+   * Initialize a git repository, and create an initial commit once the
+   * project has been created. Skipped if the project is already inside a
+   * git work tree, or git is not installed.
+   * @default false
+   */
+  git?: boolean;
+  /**
+   * The message of the initial commit.
+   * @default "Initial commit from create-agent-chat-app"
+   */
+  commitMessage?: string;
+  /**
+   * Default values for environment variables, written to `.env.example`.
+   * @default {}
+   */
+  envDefaults?: Record<string, string>;
+  /**
+   * Values for the environment variables, written to `.env` with file mode
+   * 0600. No `.env` is written if omitted.
+   */
+  env?: Record<string, string>;
+}
@@ -0,0 +1,239 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import chalk from "chalk";
+import { execFileSync } from "child_process";
+import { AgentManifest } from "./agents.js";
+import { createProject } from "./create-project.js";
+import { findProjectRoot, getInstalledAgents } from "./project.js";
+import {
+  TEMPLATE_LOCK_FILE,
+  TemplateLock,
+  createTemplateLock,
+  getCliVersion,
+  readTemplateLock,
+  writeTemplateLock,
+} from "./template-lock.js";
+import { TemplateSource, resolveTemplateSource } from "./template-source.js";
+import { UpgradeSummary, mergeTemplateFiles } from "./three-way-merge.js";
+
+/**
+ * A plain semver version, e.g. `0.1.6` or `1.0.0-rc.1`.
+ */
+const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(-[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*)?(\+[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*)?$/;
+
+/**
+ * Generates the files of a project in memory.
+ *
+ * @param {TemplateLock["answers"]} answers - The configuration to generate the project from
+ * @param {string | undefined} templatesDir - The directory containing the templates, defaults to the bundled templates
+ * @returns {Promise<Map<string, Buffer>>} The generated files, keyed by path relative to the project root
+ */
+async function generateFiles(
+  answers: TemplateLock["answers"],
+  templatesDir?: string,
+): Promise<Map<string, Buffer>> {
+  const result = await createProject({
+    ...answers,
+    autoInstallDeps: false,
+    git: false,
+    dryRun: true,
+    directory: os.tmpdir(),
+    templatesDir,
+  });
+  const files = new Map<string, Buffer>();
+  result.dryRunContents?.forEach((contents, filePath) => {
+    const file = path
+      .relative(result.targetDir, filePath)
+      .split(path.sep)
+      .join("/");
+    if (file !== TEMPLATE_LOCK_FILE) {
+      files.set(file, contents);
+    }
+  });
+  return files;
+}
+
+/**
+ * Generates the files of a project exactly as a previous version of
+ * create-agent-chat-app did, by downloading that version's templates.
+ *
+ * @param {TemplateLock} lock - The template lock of the project
+ * @returns {Promise<Map<string, Buffer>>} The generated files, keyed by path relative to the project root
+ */
+async function generateOriginalFiles(
+  lock: TemplateLock,
+): Promise<Map<string, Buffer>> {
+  if (lock.version === (await getCliVersion())) {
+    return generateFiles(lock.answers);
+  }
+  // The version is passed on to npm, so anything but a plain version is
+  // rejected, as the lock file could have been edited by anyone
+  if (!SEMVER_PATTERN.test(lock.version)) {
+    throw new Error(
+      `The version ${JSON.stringify(lock.version)} in ${TEMPLATE_LOCK_FILE} is not a valid version`,
+    );
+  }
+
+  const tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), "create-agent-chat-app-upgrade-"),
+  );
+  let template: TemplateSource | undefined;
+  try {
+    const tarball = execFileSync(
+      "npm",
+      [
+        "pack",
+        `create-agent-chat-app@${lock.version}`,
+        "--silent",
+        "--pack-destination",
+        tempDir,
+      ],
+      { stdio: ["ignore", "pipe", "pipe"], timeout: 120000 },
+    )
+      .toString()
+      .trim()
+      .split("\n")
+      .pop() as string;
+    template = await resolveTemplateSource(path.join(tempDir, tarball));
+    return await generateFiles(
+      lock.answers,
+      path.join(template.dir, "templates"),
+    );
+  } catch (e) {
+    throw new Error(
+      `Failed to download the templates of version ${lock.version}: ${(e as Error).message}`,
+    );
+  } finally {
+    await template?.cleanup();
+    await fs.remove(tempDir);
+  }
+}
+
+/**
+ * Prints what happened to every template file during an upgrade.
+ *
+ * @param {UpgradeSummary} summary - What happened to every file
+ * @param {boolean} dryRun - Whether nothing was written
+ */
+function printUpgradeSummary(summary: UpgradeSummary, dryRun: boolean): void {
+  const sections: [string, string[], string][] = [
+    [dryRun ? "Would update" : "Updated", summary.updated, chalk.green("~")],
+    [dryRun ? "Would add" : "Added", summary.added, chalk.green("+")],
+    [dryRun ? "Would remove" : "Removed", summary.removed, chalk.red("-")],
+    [dryRun ? "Would merge" : "Merged", summary.merged, chalk.green("~")],
+    ["Conflicts", summary.conflicts, chalk.red("!")],
+  ];
+  let changes = 0;
+  for (const [title, files, icon] of sections) {
+    if (files.length === 0) continue;
+    changes += files.length;
+    console.log(`${title}:`);
+    files.forEach((file) => console.log(`  ${icon} ${file}`));
+    console.log();
+  }
+  if (changes === 0) {
+    console.log("Your project is already up to date with the templates.");
+    return;
+  }
+
+  if (summary.conflicts.length > 0) {
+    console.log(
+      `${chalk.yellow("Warning: ")} Resolve the conflicts before running the project. Look for ${chalk.cyan("<<<<<<<")} markers, or compare files with their ${chalk.cyan(".new")} version.`,
+    );
+  }
+}
+
+/**
+ * Upgrades the template files of a project to the templates of the running
+ * version of create-agent-chat-app. Every file is merged three ways between
+ * the template it was generated from, the user's file, and the new template:
+ * files the user has not changed are replaced, changes on both sides which do
+ * not overlap are combined, and overlapping changes are marked as conflicts.
+ *
+ * @param {AgentManifest[]} manifests - All available prebuilt agents
+ * @param {string} cwd - The directory the command was run from
+ * @param {object} options - Additional options
+ * @param {boolean} options.dryRun - Print what would change, without writing anything
+ */
+export async function upgradeProject(
+  manifests: AgentManifest[],
+  cwd: string,
+  options: { dryRun?: boolean } = {},
+): Promise<void> {
+  const rootDir = await findProjectRoot(cwd);
+  const lock = await readTemplateLock(rootDir);
+  if (!lock) {
+    throw new Error(
+      `${TEMPLATE_LOCK_FILE} was not found in ${rootDir}. Only projects created with a version of create-agent-chat-app which records its templates can be upgraded.`,
+    );
+  }
+  const version = await getCliVersion();
+  console.log(
+    `Upgrading ${chalk.green(rootDir)} from ${chalk.cyan(lock.version)} to ${chalk.cyan(version)}\n`,
+  );
+
+  // Agents added or removed since the project was created are taken into account
+  const installedAgents = await getInstalledAgents(rootDir, manifests);
+  const answers: TemplateLock["answers"] = {
+    ...lock.answers,
+    agents: installedAgents.map((agent) => agent.id),
+  };
+
+  let originalFiles = new Map<string, Buffer>();
+  try {
+    originalFiles = await generateOriginalFiles(lock);
+  } catch (e) {
+    console.log(
+      `${chalk.yellow("Warning: ")} ${(e as Error).message}\nFiles you have changed can not be merged, and the new template is written next to them instead.\n`,
+    );
+  }
+  const newFiles = await generateFiles(answers);
+
+  // The project's version of every file the old or new templates contain
+  const currentFiles = new Map<string, Buffer>();
+  const files = new Set([...Object.keys(lock.files), ...newFiles.keys()]);
+  for (const file of files) {
+    const filePath = path.join(rootDir, file);
+    if (await fs.exists(filePath)) {
+      currentFiles.set(file, await fs.promises.readFile(filePath));
+    }
+  }
+  const { summary, writes } = mergeTemplateFiles(
+    {
+      recorded: lock.files,
+      original: originalFiles,
+      current: currentFiles,
+      next: newFiles,
+    },
+    `template ${version}`,
+  );
+
+  printUpgradeSummary(summary, !!options.dryRun);
+  if (options.dryRun) return;
+
+  for (const [file, contents] of writes) {
+    const filePath = path.join(rootDir, file);
+    if (contents === undefined) {
+      await fs.remove(filePath);
+    } else {
+      await fs.outputFile(filePath, contents);
+    }
+  }
+  await writeTemplateLock(
+    rootDir,
+    createTemplateLock(version, answers, newFiles),
+  );
+
+  const changedFiles = [
+    ...summary.updated,
+    ...summary.added,
+    ...summary.merged,
+  ];
+  if (changedFiles.some((file) => path.basename(file) === "package.json")) {
+    console.log(`
+To install the updated dependencies, run:
+  ${chalk.cyan(`${answers.packageManager} install`)}`);
+  }
+}
@@ -0,0 +1,54 @@
+import { RunnableConfig } from "@langchain/core/runnables";
+import { MessagesAnnotation, StateGraph } from "@langchain/langgraph";
+import { initChatModel } from "langchain/chat_models/universal";
+
+import { ConfigurationSchema, ensureConfiguration } from "./configuration.js";
+
+/**
+ * Load a chat model from a name in the format 'provider/model'.
+ */
+async function loadChatModel(
+  fullySpecifiedName: string,
+): Promise<ReturnType<typeof initChatModel>> {
+  const index = fullySpecifiedName.indexOf("/");
+  if (index === -1) {
+    return await initChatModel(fullySpecifiedName);
+  }
+  return await initChatModel(fullySpecifiedName.slice(index + 1), {
+    modelProvider: fullySpecifiedName.slice(0, index),
+  });
+}
+
+// Define the function that calls the model
+async function callModel(
+  state: typeof MessagesAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof MessagesAnnotation.Update> {
+  const configuration = ensureConfiguration(config);
+  const model = await loadChatModel(configuration.model);
+
+  const response = await model.invoke([
+    {
+      role: "system",
+      content: configuration.systemPromptTemplate.replace(
+        "{system_time}",
+        new Date().toISOString(),
+      ),
+    },
+    ...state.messages,
+  ]);
+
+  // We return a list, because this will get added to the existing list
+  return { messages: [response] };
+}
+
+// Define a new graph. We use the prebuilt MessagesAnnotation to define state:
+// https://langchain-ai.github.io/langgraphjs/concepts/low_level/#messagesannotation
+const workflow = new StateGraph(MessagesAnnotation, ConfigurationSchema)
+  .addNode("callModel", callModel)
+  .addEdge("__start__", "callModel")
+  .addEdge("callModel", "__end__");
+
+// Finally, we compile it!
+// This compiles it into a graph you can invoke and deploy.
+export const graph = workflow.compile();
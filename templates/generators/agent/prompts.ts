@@ -0,0 +1,7 @@
+/**
+ * Default prompts used by the agent.
+ */
+
+export const SYSTEM_PROMPT_TEMPLATE = `You are a helpful AI assistant.
+
+System time: {system_time}`;
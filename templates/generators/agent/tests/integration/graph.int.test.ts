@@ -0,0 +1,17 @@
+import { it, expect } from "@jest/globals";
+import { BaseMessage } from "@langchain/core/messages";
+
+import { graph } from "../../graph.js";
+
+it("Simple runthrough", async () => {
+  const res = await graph.invoke({
+    messages: [
+      {
+        role: "user",
+        content: "Hello!",
+      },
+    ],
+  });
+  const lastMessage: BaseMessage = res.messages[res.messages.length - 1];
+  expect(lastMessage._getType()).toBe("ai");
+});
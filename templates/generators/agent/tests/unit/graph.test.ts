@@ -0,0 +1,19 @@
+import { describe, it, expect } from "@jest/globals";
+
+import { ensureConfiguration } from "../../configuration.js";
+import { SYSTEM_PROMPT_TEMPLATE } from "../../prompts.js";
+
+describe("ensureConfiguration", () => {
+  it("fills in the defaults", () => {
+    const configuration = ensureConfiguration({});
+    expect(configuration.systemPromptTemplate).toBe(SYSTEM_PROMPT_TEMPLATE);
+    expect(configuration.model).toContain("/");
+  });
+
+  it("keeps the configured values", () => {
+    const configuration = ensureConfiguration({
+      configurable: { model: "openai/gpt-4o" },
+    });
+    expect(configuration.model).toBe("openai/gpt-4o");
+  });
+});
@@ -11,7 +11,7 @@ const inter = Inter({
 });
 
 export const metadata: Metadata = {
-  title: "Agent Inbox",
+  title: "%%appTitle%%",
   description: "Agent Inbox UX by LangChain",
 };
 
@@ -1,16 +1,31 @@
+// @if vectorStore=elastic,elastic-local
 import { Client } from "@elastic/elasticsearch";
 import { ElasticVectorSearch } from "@langchain/community/vectorstores/elasticsearch";
+// @endif
 import { RunnableConfig } from "@langchain/core/runnables";
 import { VectorStoreRetriever } from "@langchain/core/vectorstores";
+// @if vectorStore=mongodb
 import { MongoDBAtlasVectorSearch } from "@langchain/mongodb";
+// @endif
+// @if vectorStore=pinecone
 import { PineconeStore } from "@langchain/pinecone";
+// @endif
+// @if vectorStore=mongodb
 import { MongoClient } from "mongodb";
+// @endif
 import { ensureBaseConfiguration } from "./configuration.js";
+// @if vectorStore=pinecone
 import { Pinecone as PineconeClient } from "@pinecone-database/pinecone";
+// @endif
 import { Embeddings } from "@langchain/core/embeddings";
+// @if embeddings=cohere
 import { CohereEmbeddings } from "@langchain/cohere";
+// @endif
+// @if embeddings=openai
 import { OpenAIEmbeddings } from "@langchain/openai";
+// @endif
 
+// @if vectorStore=elastic,elastic-local
 async function makeElasticRetriever(
   configuration: ReturnType<typeof ensureBaseConfiguration>,
   embeddingModel: Embeddings,
@@ -51,7 +66,9 @@ async function makeElasticRetriever(
   });
   return vectorStore.asRetriever({ filter: configuration.searchKwargs || {} });
 }
+// @endif
 
+// @if vectorStore=pinecone
 async function makePineconeRetriever(
   configuration: ReturnType<typeof ensureBaseConfiguration>,
   embeddingModel: Embeddings,
@@ -68,7 +85,9 @@ async function makePineconeRetriever(
 
   return vectorStore.asRetriever({ filter: configuration.searchKwargs || {} });
 }
+// @endif
 
+// @if vectorStore=mongodb
 async function makeMongoDBRetriever(
   configuration: ReturnType<typeof ensureBaseConfiguration>,
   embeddingModel: Embeddings,
@@ -88,6 +107,7 @@ async function makeMongoDBRetriever(
   });
   return vectorStore.asRetriever({ filter: configuration.searchKwargs || {} });
 }
+// @endif
 
 function makeTextEmbeddings(modelName: string): Embeddings {
   /**
@@ -103,10 +123,14 @@ function makeTextEmbeddings(modelName: string): Embeddings {
     model = modelName.slice(index + 1);
   }
   switch (provider) {
+    // @if embeddings=openai
     case "openai":
       return new OpenAIEmbeddings({ model });
+    // @endif
+    // @if embeddings=cohere
     case "cohere":
       return new CohereEmbeddings({ model });
+    // @endif
     default:
       throw new Error(`Unsupported embedding provider: ${provider}`);
   }
@@ -119,13 +143,19 @@ export async function makeRetriever(
   const embeddingModel = makeTextEmbeddings(configuration.embeddingModel);
 
   switch (configuration.retrieverProvider) {
+    // @if vectorStore=elastic,elastic-local
     case "elastic":
     case "elastic-local":
       return makeElasticRetriever(configuration, embeddingModel);
+    // @endif
+    // @if vectorStore=pinecone
     case "pinecone":
       return makePineconeRetriever(configuration, embeddingModel);
+    // @endif
+    // @if vectorStore=mongodb
     case "mongodb":
       return makeMongoDBRetriever(configuration, embeddingModel);
+    // @endif
     default:
       throw new Error(
         `Unrecognized retrieverProvider in configuration: ${configuration.retrieverProvider}`,
@@ -1,16 +1,31 @@
+// @if vectorStore=elastic,elastic-local
 import { Client } from "@elastic/elasticsearch";
 import { ElasticVectorSearch } from "@langchain/community/vectorstores/elasticsearch";
+// @endif
 import { RunnableConfig } from "@langchain/core/runnables";
 import { VectorStoreRetriever } from "@langchain/core/vectorstores";
+// @if vectorStore=mongodb
 import { MongoDBAtlasVectorSearch } from "@langchain/mongodb";
+// @endif
+// @if vectorStore=pinecone
 import { PineconeStore } from "@langchain/pinecone";
+// @endif
+// @if vectorStore=mongodb
 import { MongoClient } from "mongodb";
+// @endif
 import { ensureConfiguration } from "./configuration.js";
+// @if vectorStore=pinecone
 import { Pinecone as PineconeClient } from "@pinecone-database/pinecone";
+// @endif
 import { Embeddings } from "@langchain/core/embeddings";
+// @if embeddings=cohere
 import { CohereEmbeddings } from "@langchain/cohere";
+// @endif
+// @if embeddings=openai
 import { OpenAIEmbeddings } from "@langchain/openai";
+// @endif
 
+// @if vectorStore=elastic,elastic-local
 async function makeElasticRetriever(
   configuration: ReturnType<typeof ensureConfiguration>,
   embeddingModel: Embeddings,
@@ -57,7 +72,9 @@ async function makeElasticRetriever(
 
   return vectorStore.asRetriever({ filter });
 }
+// @endif
 
+// @if vectorStore=pinecone
 async function makePineconeRetriever(
   configuration: ReturnType<typeof ensureConfiguration>,
   embeddingModel: Embeddings,
@@ -80,7 +97,9 @@ async function makePineconeRetriever(
 
   return vectorStore.asRetriever({ filter });
 }
+// @endif
 
+// @if vectorStore=mongodb
 async function makeMongoDBRetriever(
   configuration: ReturnType<typeof ensureConfiguration>,
   embeddingModel: Embeddings,
@@ -105,6 +124,7 @@ async function makeMongoDBRetriever(
   };
   return vectorStore.asRetriever({ filter: searchKwargs });
 }
+// @endif
 
 function makeTextEmbeddings(modelName: string): Embeddings {
   /**
@@ -120,10 +140,14 @@ function makeTextEmbeddings(modelName: string): Embeddings {
     model = modelName.slice(index + 1);
   }
   switch (provider) {
+    // @if embeddings=openai
     case "openai":
       return new OpenAIEmbeddings({ model });
+    // @endif
+    // @if embeddings=cohere
     case "cohere":
       return new CohereEmbeddings({ model });
+    // @endif
     default:
       throw new Error(`Unsupported embedding provider: ${provider}`);
   }
@@ -141,13 +165,19 @@ export async function makeRetriever(
   }
 
   switch (configuration.retrieverProvider) {
+    // @if vectorStore=elastic,elastic-local
     case "elastic":
     case "elastic-local":
       return makeElasticRetriever(configuration, embeddingModel);
+    // @endif
+    // @if vectorStore=pinecone
     case "pinecone":
       return makePineconeRetriever(configuration, embeddingModel);
+    // @endif
+    // @if vectorStore=mongodb
     case "mongodb":
       return makeMongoDBRetriever(configuration, embeddingModel);
+    // @endif
     default:
       throw new Error(
         `Unrecognized retrieverProvider in configuration: ${configuration.retrieverProvider}`,
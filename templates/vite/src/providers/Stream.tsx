@@ -121,8 +121,8 @@ const StreamSession = ({
 };
 
 // Default values for the form
-const DEFAULT_API_URL = "http://localhost:2024";
-const DEFAULT_ASSISTANT_ID = "agent";
+const DEFAULT_API_URL = "http://localhost:%%langGraphPort%%";
+const DEFAULT_ASSISTANT_ID = "%%assistantId%%";
 
 export const StreamProvider: React.FC<{ children: ReactNode }> = ({
   children,
@@ -163,11 +163,11 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
             <div className="flex items-start flex-col gap-2">
               <LangGraphLogoSVG className="h-7" />
               <h1 className="text-xl font-semibold tracking-tight">
-                Agent Chat
+                %%appTitle%%
               </h1>
             </div>
             <p className="text-muted-foreground">
-              Welcome to Agent Chat! Before you get started, you need to enter
+              Welcome to %%appTitle%%! Before you get started, you need to enter
               the URL of the deployment and the assistant / graph ID.
             </p>
           </div>